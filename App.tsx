@@ -4,31 +4,59 @@ import { Tab, User } from './types';
 import { GenerateView } from './components/GenerateView';
 import { HistoryView } from './components/HistoryView';
 import { LoginView } from './components/LoginView';
+import { SetupView } from './components/SetupView';
+import { PasswordChangeView } from './components/PasswordChangeView';
 import { AdminView } from './components/AdminView';
 import { AnglesView } from './components/AnglesView';
-import { Sparkles, History, Layout, ShieldCheck, LogOut, Box, Wallet } from 'lucide-react';
-import { getConsumedCredits, EVENT_CREDITS_UPDATED, formatCurrency } from './services/credits';
-import { getUserByEmail, getAppConfig, EVENT_CONFIG_UPDATED } from './services/db';
-
-const TOTAL_BUDGET = 800.00;
-
-// Default user to bypass login
-const DEFAULT_USER: User = {
-    id: 'karim-benkiran',
-    email: 'karim.benkiran@dprgroup.com',
-    password: '1234',
-    name: 'Karim',
-    role: 'admin'
+import { EditView } from './components/EditView';
+import { JobQueuePanel } from './components/JobQueuePanel';
+import { Sparkles, History, Layout, ShieldCheck, LogOut, Box, Wallet, AlertTriangle, X, Wand2 } from 'lucide-react';
+import { EVENT_CREDITS_UPDATED, formatCurrency } from './services/credits';
+import { getAppConfig, countUsers, getUserByEmail, changePassword, resetPasswordWithToken, getSpending, EVENT_CONFIG_UPDATED } from './services/db';
+import { startSession, endSession, restoreSession, isSessionActive, readResetLinkParams, clearResetLinkParams } from './services/auth';
+import { hasPermission, canAccessAdmin } from './services/permissions';
+import { getBudgetStatuses, getTightestBudget, describeBudget, BudgetStatus, EVENT_BUDGET_WARNING } from './services/budgets';
+import { loadJobs, unloadJobs } from './services/jobQueue';
+
+const SESSION_CHECK_INTERVAL_MS = 60 * 1000;
+
+const RESET_LINK_OTHER_DEVICE = "This link is only valid on the device where it was created: accounts are stored in the browser of the admin who sent it. Open it there, or ask the admin to set a temporary password for you.";
+
+// Which permission unlocks each tab
+const canOpenTab = (user: User, tab: Tab): boolean => {
+    switch (tab) {
+        case Tab.GENERATE:
+        case Tab.EDIT:
+        case Tab.ANGLES:
+            return hasPermission(user, 'images.create');
+        case Tab.HISTORY:
+            return hasPermission(user, 'history.view');
+        case Tab.ADMIN:
+            return canAccessAdmin(user);
+    }
 };
 
+// Viewers land on History, everyone else on Generate
+const getHomeTab = (user: User): Tab => canOpenTab(user, Tab.GENERATE) ? Tab.GENERATE : Tab.HISTORY;
+
 export default function App() {
-  // Auth State - Defaulted to Karim to skip login screen
-  const [currentUser, setCurrentUser] = useState<User | null>(DEFAULT_USER);
+  // Auth State
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [needsSetup, setNeedsSetup] = useState(false);
+  // Reset link opened from the welcome / reset email
+  const [resetLink, setResetLink] = useState(readResetLinkParams());
+  const [resetLinkUnknown, setResetLinkUnknown] = useState(false);
+  // Logged in with a temporary password: a new one must be chosen before entering
+  const [pendingPasswordChange, setPendingPasswordChange] = useState<{ user: User; rememberMe: boolean } | null>(null);
   const [loadingSession, setLoadingSession] = useState(true);
 
   // App State
   const [activeTab, setActiveTab] = useState<Tab>(Tab.GENERATE);
   const [totalCost, setTotalCost] = useState(0);
+  // Budget widget: project selected in Generate / Angles, and the budget closest to running out
+  const [budgetProjectId, setBudgetProjectId] = useState<string | null>(null);
+  const [budgetStatus, setBudgetStatus] = useState<BudgetStatus | null>(null);
+  const [budgetWarning, setBudgetWarning] = useState<string | null>(null);
   const [appConfig, setAppConfig] = useState(getAppConfig());
 
   // State for jumping from History to Generate
@@ -37,15 +65,26 @@ export default function App() {
   // State for jumping from Generate to Angles
   const [anglesJumpImage, setAnglesJumpImage] = useState<string | null>(null);
 
+  // State for jumping from Generate / History / Angles to Edit
+  const [editJumpImage, setEditJumpImage] = useState<string | null>(null);
+
   useEffect(() => {
     const init = async () => {
-        // 1. Costs
-        setTotalCost(getConsumedCredits());
-        
-        // 2. Load latest config
+        // 1. Load latest config
         const cfg = getAppConfig();
         setAppConfig(cfg);
         document.title = cfg.appName;
+
+        // 2. First run: no account yet, the first admin must be created
+        setNeedsSetup((await countUsers()) === 0);
+
+        // Accounts and reset tokens live in the browser that issued the link
+        if (resetLink) setResetLinkUnknown(!(await getUserByEmail(resetLink.email)));
+
+        // 3. Restore persisted login (if still valid)
+        const restoredUser = await restoreSession();
+        setCurrentUser(restoredUser);
+        if (restoredUser) setActiveTab(getHomeTab(restoredUser));
         
         setLoadingSession(false);
     };
@@ -53,29 +92,77 @@ export default function App() {
     init();
 
     // Listen for updates
-    const handleCostUpdate = () => {
-      setTotalCost(getConsumedCredits());
-    };
-    
     const handleConfigUpdate = () => {
         const cfg = getAppConfig();
         setAppConfig(cfg);
         document.title = cfg.appName;
     };
 
-    window.addEventListener(EVENT_CREDITS_UPDATED, handleCostUpdate);
+    const handleBudgetWarning = (e: Event) => {
+        setBudgetWarning((e as CustomEvent<string>).detail);
+    };
+
     window.addEventListener(EVENT_CONFIG_UPDATED, handleConfigUpdate);
+    window.addEventListener(EVENT_BUDGET_WARNING, handleBudgetWarning);
 
     return () => {
-        window.removeEventListener(EVENT_CREDITS_UPDATED, handleCostUpdate);
         window.removeEventListener(EVENT_CONFIG_UPDATED, handleConfigUpdate);
+        window.removeEventListener(EVENT_BUDGET_WARNING, handleBudgetWarning);
     };
   }, []);
 
+  // Recompute the relevant budget when the user, the project or the spending changes
+  useEffect(() => {
+    if (!currentUser) return;
+    const refreshBudget = async () => {
+        const [statuses, spent] = await Promise.all([
+            getBudgetStatuses(currentUser, budgetProjectId || undefined),
+            getSpending({ userId: currentUser.id, since: 0 })
+        ]);
+        setBudgetStatus(getTightestBudget(statuses));
+        setTotalCost(spent);
+    };
+    refreshBudget();
+    window.addEventListener(EVENT_CREDITS_UPDATED, refreshBudget);
+    return () => window.removeEventListener(EVENT_CREDITS_UPDATED, refreshBudget);
+  }, [currentUser, budgetProjectId]);
+
+  // Show the user's generation jobs and resume those a reload interrupted
+  useEffect(() => {
+    if (!currentUser) return;
+    loadJobs(currentUser).catch(e => console.error("Failed to load generation jobs", e));
+  }, [currentUser]);
+
+  // Log out as soon as the stored session expires
+  useEffect(() => {
+    if (!currentUser) return;
+    const interval = setInterval(() => {
+        if (!isSessionActive()) handleLogout();
+    }, SESSION_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [currentUser]);
+
+  const handleLogin = async (user: User, rememberMe: boolean) => {
+      if (user.mustChangePassword) {
+          setPendingPasswordChange({ user, rememberMe });
+          return;
+      }
+      await startSession(user, rememberMe);
+      setCurrentUser(user);
+      setActiveTab(getHomeTab(user));
+  };
+
   const handleLogout = () => {
-      // In this "No Login" version, logout just resets the tab
+      unloadJobs();
+      endSession();
+      setCurrentUser(null);
       setActiveTab(Tab.GENERATE);
-      alert("Identification removed. You are browsing as " + currentUser?.name);
+      setHistoryJumpImage(null);
+      setAnglesJumpImage(null);
+      setEditJumpImage(null);
+      setBudgetProjectId(null);
+      setBudgetStatus(null);
+      setBudgetWarning(null);
   };
 
   const handleHistoryJump = (imageUrl: string) => {
@@ -88,6 +175,11 @@ export default function App() {
       setActiveTab(Tab.ANGLES);
   };
 
+  const handleJumpToEdit = (imageUrl: string) => {
+      setEditJumpImage(imageUrl);
+      setActiveTab(Tab.EDIT);
+  };
+
   if (loadingSession) {
       return (
         <div className="min-h-screen flex items-center justify-center bg-zinc-950">
@@ -99,7 +191,63 @@ export default function App() {
       );
   }
 
-  const remainingBudget = TOTAL_BUDGET - totalCost;
+  if (resetLink) {
+      const closeResetLink = () => {
+          clearResetLinkParams();
+          setResetLink(null);
+      };
+      return (
+        <PasswordChangeView
+            title="Choose Your Password"
+            subtitle={`Set a new password for ${resetLink.email}.`}
+            unavailable={resetLinkUnknown ? RESET_LINK_OTHER_DEVICE : undefined}
+            onSubmit={async (password) => {
+                const user = await resetPasswordWithToken(resetLink.email, resetLink.token, password);
+                closeResetLink();
+                await handleLogin(user, false);
+            }}
+            onCancel={closeResetLink}
+        />
+      );
+  }
+
+  if (needsSetup) {
+      return (
+        <SetupView onComplete={async (admin) => {
+            await handleLogin(admin, false);
+            setNeedsSetup(false);
+        }} />
+      );
+  }
+
+  if (pendingPasswordChange) {
+      return (
+        <PasswordChangeView
+            title="Change Your Password"
+            subtitle="You signed in with a temporary password. Choose a new one to continue."
+            onSubmit={async (password) => {
+                const user = await changePassword(pendingPasswordChange.user.email, password);
+                setPendingPasswordChange(null);
+                await handleLogin(user, pendingPasswordChange.rememberMe);
+            }}
+            onCancel={() => setPendingPasswordChange(null)}
+        />
+      );
+  }
+
+  if (!currentUser) {
+      return <LoginView onLogin={handleLogin} />;
+  }
+
+  // Without any budget, the widget shows what the user has spent so far
+  const budgetLevel = budgetStatus
+    ? (budgetStatus.remaining <= 0 ? 'exceeded' : budgetStatus.spent >= budgetStatus.limit.amount * budgetStatus.limit.warnAt ? 'warning' : 'ok')
+    : 'ok';
+  const budgetColors = {
+    ok: { badge: 'bg-green-500/10 border-green-500/20', icon: 'text-green-500', text: 'text-zinc-200' },
+    warning: { badge: 'bg-yellow-500/10 border-yellow-500/20', icon: 'text-yellow-500', text: 'text-yellow-300' },
+    exceeded: { badge: 'bg-red-500/10 border-red-500/20', icon: 'text-red-500', text: 'text-red-400' }
+  }[budgetLevel];
 
   return (
     <div className="min-h-screen flex flex-col bg-zinc-950 text-zinc-100 font-sans selection:bg-purple-500/30">
@@ -111,10 +259,10 @@ export default function App() {
       <nav className="sticky top-0 z-40 bg-zinc-950/80 backdrop-blur-xl border-b border-zinc-800 pt-1.5">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
             
-            {/* Logo & Branding - Clickable to go to Generate */}
+            {/* Logo & Branding - Clickable to go to the home tab */}
             <div 
                 className="flex items-center gap-3 cursor-pointer transition-opacity hover:opacity-80" 
-                onClick={() => setActiveTab(Tab.GENERATE)}
+                onClick={() => setActiveTab(getHomeTab(currentUser))}
                 title="Go to Home"
             >
                 <div className="relative group">
@@ -132,7 +280,7 @@ export default function App() {
                         {appConfig.appName}
                     </h1>
                     <p className="text-[10px] text-zinc-500 font-medium uppercase tracking-wider">
-                        Creative Suite <span className="text-zinc-600 mx-1">|</span> {currentUser?.name}
+                        Creative Suite <span className="text-zinc-600 mx-1">|</span> {currentUser.name}
                     </p>
                 </div>
             </div>
@@ -141,22 +289,31 @@ export default function App() {
             <div className="flex items-center gap-4">
                 
                 {/* Budget Counter */}
-                <div className="flex items-center gap-3 bg-zinc-900/50 border border-zinc-800 pr-4 pl-1.5 py-1.5 rounded-full shadow-sm">
-                    <div className={`w-7 h-7 rounded-full flex items-center justify-center border ${remainingBudget < 10 ? 'bg-red-500/10 border-red-500/20' : 'bg-green-500/10 border-green-500/20'}`}>
-                        <Wallet className={`w-3.5 h-3.5 ${remainingBudget < 10 ? 'text-red-500' : 'text-green-500'}`} />
+                <div 
+                    className="flex items-center gap-3 bg-zinc-900/50 border border-zinc-800 pr-4 pl-1.5 py-1.5 rounded-full shadow-sm"
+                    title={budgetStatus 
+                        ? `${describeBudget(budgetStatus)}: ${formatCurrency(budgetStatus.spent)} of ${formatCurrency(budgetStatus.limit.amount)} spent` 
+                        : 'No budget set: your total spending'}
+                >
+                    <div className={`w-7 h-7 rounded-full flex items-center justify-center border ${budgetColors.badge}`}>
+                        <Wallet className={`w-3.5 h-3.5 ${budgetColors.icon}`} />
                     </div>
                     <div className="flex flex-col leading-none">
-                        <span className="text-[10px] text-zinc-500 font-bold uppercase">Budget</span>
-                        <span className={`text-sm font-bold ${remainingBudget < 0 ? 'text-red-400' : 'text-zinc-200'}`}>
-                            {formatCurrency(remainingBudget)}
+                        <span className="text-[10px] text-zinc-500 font-bold uppercase">
+                            {budgetStatus ? (budgetStatus.scope === 'project' ? 'Project Budget' : 'My Budget') : 'Spent'}
+                        </span>
+                        <span className={`text-sm font-bold ${budgetColors.text}`}>
+                            {formatCurrency(budgetStatus ? budgetStatus.remaining : totalCost)}
                         </span>
                     </div>
                 </div>
 
+                {canOpenTab(currentUser, Tab.GENERATE) && <JobQueuePanel />}
+
                 <button 
                     onClick={handleLogout}
                     className="p-2 text-zinc-500 hover:text-red-400 hover:bg-zinc-900 rounded-lg transition-colors"
-                    title="Reset Session"
+                    title="Log Out"
                 >
                     <LogOut className="w-5 h-5" />
                 </button>
@@ -164,6 +321,19 @@ export default function App() {
         </div>
       </nav>
 
+      {/* Budget Warning */}
+      {budgetWarning && (
+        <div className="max-w-7xl mx-auto w-full px-4 sm:px-6 lg:px-8 pt-4">
+            <div className="flex items-center gap-3 bg-yellow-500/10 border border-yellow-500/30 text-yellow-300 text-sm px-4 py-3 rounded-xl">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                <span className="flex-1">{budgetWarning}</span>
+                <button onClick={() => setBudgetWarning(null)} className="text-yellow-500 hover:text-yellow-200" title="Dismiss">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+        </div>
+      )}
+
       {/* Main Content Area */}
       <main className="flex-1 max-w-7xl mx-auto w-full px-4 sm:px-6 lg:px-8 py-8">
         
@@ -176,6 +346,7 @@ export default function App() {
 
         {/* Tabs */}
         <div className="flex gap-2 border-b border-zinc-800 mb-8 overflow-x-auto pb-1">
+            {canOpenTab(currentUser, Tab.GENERATE) && (
             <button
             onClick={() => setActiveTab(Tab.GENERATE)}
             className={`flex items-center gap-2 px-5 py-2.5 rounded-t-lg transition-all font-medium text-sm whitespace-nowrap border-b-2 ${
@@ -187,6 +358,21 @@ export default function App() {
             <Sparkles className="w-4 h-4" />
             Generate
             </button>
+            )}
+            {canOpenTab(currentUser, Tab.EDIT) && (
+            <button
+            onClick={() => setActiveTab(Tab.EDIT)}
+            className={`flex items-center gap-2 px-5 py-2.5 rounded-t-lg transition-all font-medium text-sm whitespace-nowrap border-b-2 ${
+                activeTab === Tab.EDIT
+                ? 'border-blue-500 text-blue-400 bg-blue-500/5'
+                : 'border-transparent text-zinc-400 hover:text-zinc-200 hover:bg-zinc-900'
+            }`}
+            >
+            <Wand2 className="w-4 h-4" />
+            Edit
+            </button>
+            )}
+            {canOpenTab(currentUser, Tab.ANGLES) && (
             <button
             onClick={() => setActiveTab(Tab.ANGLES)}
             className={`flex items-center gap-2 px-5 py-2.5 rounded-t-lg transition-all font-medium text-sm whitespace-nowrap border-b-2 ${
@@ -198,6 +384,8 @@ export default function App() {
             <Box className="w-4 h-4" />
             Angles
             </button>
+            )}
+            {canOpenTab(currentUser, Tab.HISTORY) && (
             <button
             onClick={() => setActiveTab(Tab.HISTORY)}
             className={`flex items-center gap-2 px-5 py-2.5 rounded-t-lg transition-all font-medium text-sm whitespace-nowrap border-b-2 ${
@@ -209,9 +397,10 @@ export default function App() {
             <History className="w-4 h-4" />
             History
             </button>
+            )}
 
-            {/* Admin Tab - Only visible to admin role */}
-            {currentUser?.role === 'admin' && (
+            {/* Admin Tab - Only visible to admins and project managers */}
+            {canOpenTab(currentUser, Tab.ADMIN) && (
                 <button
                 onClick={() => setActiveTab(Tab.ADMIN)}
                 className={`flex items-center gap-2 px-5 py-2.5 rounded-t-lg transition-all font-medium text-sm whitespace-nowrap border-b-2 ${
@@ -228,23 +417,43 @@ export default function App() {
 
         {/* Views */}
         <div className="animate-in fade-in duration-300 slide-in-from-bottom-2">
-            {activeTab === Tab.GENERATE && (
+            {activeTab === Tab.GENERATE && canOpenTab(currentUser, Tab.GENERATE) && (
                 <GenerateView 
-                    currentUser={currentUser!} 
+                    currentUser={currentUser} 
                     initialImage={historyJumpImage} 
                     onConsumeInitialImage={() => setHistoryJumpImage(null)}
                     onJumpToAngles={handleJumpToAngles}
+                    onJumpToEdit={handleJumpToEdit}
+                    onProjectChange={setBudgetProjectId}
                 />
             )}
-            {activeTab === Tab.ANGLES && (
+            {activeTab === Tab.EDIT && canOpenTab(currentUser, Tab.EDIT) && (
+                <EditView 
+                    currentUser={currentUser}
+                    initialSourceImage={editJumpImage}
+                    onConsumeInitialSource={() => setEditJumpImage(null)}
+                    onJumpToAngles={handleJumpToAngles}
+                    onProjectChange={setBudgetProjectId}
+                />
+            )}
+            {activeTab === Tab.ANGLES && canOpenTab(currentUser, Tab.ANGLES) && (
                 <AnglesView 
-                    currentUser={currentUser!}
+                    currentUser={currentUser}
                     initialSourceImage={anglesJumpImage}
                     onConsumeInitialSource={() => setAnglesJumpImage(null)}
+                    onJumpToEdit={handleJumpToEdit}
+                    onProjectChange={setBudgetProjectId}
+                />
+            )}
+            {activeTab === Tab.HISTORY && canOpenTab(currentUser, Tab.HISTORY) && (
+                <HistoryView 
+                    currentUser={currentUser}
+                    onJumpToGen={canOpenTab(currentUser, Tab.GENERATE) ? handleHistoryJump : undefined} 
+                    onJumpToAngles={canOpenTab(currentUser, Tab.ANGLES) ? handleJumpToAngles : undefined} 
+                    onJumpToEdit={canOpenTab(currentUser, Tab.EDIT) ? handleJumpToEdit : undefined} 
                 />
             )}
-            {activeTab === Tab.HISTORY && <HistoryView onJumpToGen={handleHistoryJump} onJumpToAngles={handleJumpToAngles} />}
-            {activeTab === Tab.ADMIN && currentUser?.role === 'admin' && <AdminView />}
+            {activeTab === Tab.ADMIN && canOpenTab(currentUser, Tab.ADMIN) && <AdminView currentUser={currentUser} />}
         </div>
       </main>
     </div>
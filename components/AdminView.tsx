@@ -1,11 +1,44 @@
 import React, { useEffect, useState } from 'react';
-import { ActivityLog, User, UserRole, Project } from '../types';
-import { getAllActivityLogs, createUser, updateUser, getUsers, deleteUser, getProjects, createProject, deleteProject, getAppConfig, saveAppConfig } from '../services/db';
-import { ShieldCheck, RefreshCw, Image, Search, Calendar, UserPlus, X, Lock, Mail, User as UserIcon, Loader2, Trash2, Folder, FolderPlus, PieChart, Pencil, Filter, Settings, Save, Upload, FileDown, DollarSign } from 'lucide-react';
+import { ActivityLog, CostEntry, User, UserRole, Project, ProjectMember, ProjectMemberRole, BudgetLimit, BudgetPeriod } from '../types';
+import { getActivityLogsPage, getCostLedger, createUser, updateUser, getUsers, deleteUser, getProjects, createProject, deleteProject, setProjectMembers, setProjectBudget, setUserBudget, getAppConfig, saveAppConfig, issuePasswordReset, UserProfile, RESET_TOKEN_TTL_MS, ImportMode, ConflictPolicy } from '../services/db';
+import { describeImportSummary, exportWorkspace, getBackupFileName, importWorkspace } from '../services/backup';
+import { buildResetLink } from '../services/auth';
+import { generateToken } from '../services/password';
+import { hasPermission, managesProject, ROLE_LABELS, ROLE_DESCRIPTIONS } from '../services/permissions';
+import { ShieldCheck, RefreshCw, Image, Search, Calendar, UserPlus, X, Lock, Mail, User as UserIcon, Loader2, Trash2, Folder, FolderPlus, PieChart, Pencil, Filter, Settings, Save, Upload, FileDown, DollarSign, KeyRound, Users, DatabaseBackup, ArchiveRestore } from 'lucide-react';
 import { formatCurrency } from '../services/credits';
+import { openImage, StoredImage } from './StoredImage';
+import { LoadMoreSentinel, usePaginatedQuery } from './InfiniteScroll';
+import { BudgetScope, DEFAULT_WARN_AT } from '../services/budgets';
+import { getServerAccessKey, saveServerAccessKey } from '../services/geminiProvider';
 
-export const AdminView: React.FC = () => {
-    const [logs, setLogs] = useState<ActivityLog[]>([]);
+interface AdminViewProps {
+    currentUser: User;
+}
+
+const formatBudget = (budget?: BudgetLimit): string => {
+    if (!budget) return 'No limit';
+    return `${formatCurrency(budget.amount)} ${budget.period === 'monthly' ? '/ month' : 'one-off'}`;
+};
+
+const LOG_ACTIONS: ActivityLog['action'][] = ['GENERATE', 'REFINE', 'EDIT', 'ANGLE'];
+
+const ROLE_BADGE_STYLES: Record<UserRole, string> = {
+    admin: 'border-green-500/30 text-green-400 bg-green-500/10',
+    project_manager: 'border-blue-500/30 text-blue-400 bg-blue-500/10',
+    creator: 'border-purple-500/30 text-purple-400 bg-purple-500/10',
+    viewer: 'border-zinc-700 bg-zinc-800'
+};
+
+export const AdminView: React.FC<AdminViewProps> = ({ currentUser }) => {
+    const canManageUsers = hasPermission(currentUser, 'users.manage');
+    const canManageProjects = hasPermission(currentUser, 'projects.manage');
+    const canViewLogs = hasPermission(currentUser, 'logs.view');
+    const canManageSettings = hasPermission(currentUser, 'settings.manage');
+    const canManageBudgets = hasPermission(currentUser, 'projects.manageBudgets');
+    const canBackup = hasPermission(currentUser, 'workspace.backup');
+
+    const [costs, setCosts] = useState<CostEntry[]>([]);
     const [users, setUsers] = useState<User[]>([]);
     const [projects, setProjects] = useState<Project[]>([]);
     const [loading, setLoading] = useState(true);
@@ -13,12 +46,23 @@ export const AdminView: React.FC = () => {
     // Config State
     const [configAppName, setConfigAppName] = useState('');
     const [configLogo, setConfigLogo] = useState<string>('');
+    const [serverAccessKey, setServerAccessKey] = useState('');
     const [configSaved, setConfigSaved] = useState(false);
 
+    // Backup State
+    const [isExporting, setIsExporting] = useState(false);
+    const [isImporting, setIsImporting] = useState(false);
+    const [importMode, setImportMode] = useState<ImportMode>('merge');
+    const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>('keep');
+    const [backupError, setBackupError] = useState('');
+    const [importSummary, setImportSummary] = useState('');
+
     // Filters
     const [searchTerm, setSearchTerm] = useState('');
-    const [filterUser, setFilterUser] = useState<string>('');
+    const [search, setSearch] = useState(''); // searchTerm once typing pauses
+    const [filterUser, setFilterUser] = useState<string>(''); // User id
     const [filterProject, setFilterProject] = useState<string>('');
+    const [filterAction, setFilterAction] = useState<ActivityLog['action'] | ''>('');
     
     // Date Range Filters
     const [startDate, setStartDate] = useState<string>('');
@@ -34,7 +78,7 @@ export const AdminView: React.FC = () => {
     const [newName, setNewName] = useState('');
     const [newEmail, setNewEmail] = useState('');
     const [newPassword, setNewPassword] = useState('');
-    const [newRole, setNewRole] = useState<UserRole>('user');
+    const [newRole, setNewRole] = useState<UserRole>('creator');
     
     const [createError, setCreateError] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
@@ -43,20 +87,33 @@ export const AdminView: React.FC = () => {
     const [isCreatingProject, setIsCreatingProject] = useState(false);
     const [newProjectName, setNewProjectName] = useState('');
 
+    // Project Members Modal State
+    const [membersProject, setMembersProject] = useState<Project | null>(null);
+    const [memberDraft, setMemberDraft] = useState<ProjectMember[]>([]);
+    const [membersError, setMembersError] = useState('');
+
+    // Budget Modal State (project or user)
+    const [budgetTarget, setBudgetTarget] = useState<{ scope: BudgetScope; id: string; name: string; budget?: BudgetLimit } | null>(null);
+    const [budgetAmount, setBudgetAmount] = useState('');
+    const [budgetPeriod, setBudgetPeriod] = useState<BudgetPeriod>('monthly');
+    const [budgetWarnPercent, setBudgetWarnPercent] = useState('80');
+    const [budgetError, setBudgetError] = useState('');
+
     const fetchData = async () => {
         setLoading(true);
-        const [logsData, usersData, projectsData] = await Promise.all([
-            getAllActivityLogs(),
+        const [costsData, usersData, projectsData] = await Promise.all([
+            getCostLedger(currentUser),
             getUsers(),
-            getProjects()
+            getProjects(currentUser)
         ]);
-        setLogs(logsData);
+        setCosts(costsData);
         setUsers(usersData);
         setProjects(projectsData);
         
         const config = getAppConfig();
         setConfigAppName(config.appName);
         setConfigLogo(config.logoUrl || '');
+        setServerAccessKey(getServerAccessKey());
         
         setLoading(false);
     };
@@ -65,16 +122,88 @@ export const AdminView: React.FC = () => {
         fetchData();
     }, []);
 
+    useEffect(() => {
+        const timer = setTimeout(() => setSearch(searchTerm.trim()), 300);
+        return () => clearTimeout(timer);
+    }, [searchTerm]);
+
+    // The last admin cannot be removed (see deleteUser)
+    const adminCount = users.filter(u => u.role === 'admin').length;
+
+    // Date range, whole days in local time
+    const since = startDate ? new Date(startDate).setHours(0,0,0,0) : undefined;
+    const until = endDate ? new Date(endDate).setHours(23,59,59,999) : undefined;
+
+    // The activity table is paged from the logs indexes, the ledger behind the totals is loaded whole
+    const { items: logs, loading: logsLoading, hasMore: hasMoreLogs, loadMore: loadMoreLogs, reload: reloadLogs } = usePaginatedQuery(
+        after => getActivityLogsPage(currentUser, {
+            search,
+            userId: filterUser || undefined,
+            projectId: filterProject || undefined,
+            action: filterAction || undefined,
+            since,
+            until
+        }, after),
+        [search, filterUser, filterProject, filterAction, since, until]
+    );
+
     // --- Config Handlers ---
     const handleSaveConfig = () => {
         saveAppConfig({
             appName: configAppName,
             logoUrl: configLogo
         });
+        saveServerAccessKey(serverAccessKey.trim());
         setConfigSaved(true);
         setTimeout(() => setConfigSaved(false), 2000);
     };
 
+    // --- Backup Handlers ---
+    const handleExportBackup = async () => {
+        setIsExporting(true);
+        setBackupError('');
+        try {
+            const zip = await exportWorkspace(currentUser);
+            const url = URL.createObjectURL(zip);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = getBackupFileName();
+            link.click();
+            setTimeout(() => URL.revokeObjectURL(url), 0);
+        } catch (err: any) {
+            setBackupError(err.message || 'Export failed.');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleImportBackup = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // The same file can be picked again
+        if (!file) return;
+        if (importMode === 'restore' && !window.confirm("Restoring replaces ALL the data of this studio (users, projects, images, logs, costs) with the backup. Your own account is kept as it is. Continue?")) return;
+
+        setIsImporting(true);
+        setBackupError('');
+        setImportSummary('');
+        try {
+            const summary = await importWorkspace(currentUser, file, importMode, conflictPolicy);
+            if (importMode === 'restore') {
+                // Accounts, projects and settings all changed: start over from the restored data
+                alert(`Backup restored.\n\n${describeImportSummary(summary)}`);
+                window.location.reload();
+                return;
+            }
+            setImportSummary(describeImportSummary(summary));
+            fetchData();
+            reloadLogs();
+        } catch (err: any) {
+            setBackupError(err.message || 'Import failed.');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
     const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (file) {
@@ -95,7 +224,7 @@ export const AdminView: React.FC = () => {
         setNewName('');
         setNewEmail('');
         setNewPassword('');
-        setNewRole('user');
+        setNewRole('creator');
         setCreateError('');
         setIsUserModalOpen(true);
     };
@@ -106,7 +235,7 @@ export const AdminView: React.FC = () => {
         setOriginalEmail(user.email);
         setNewName(user.name);
         setNewEmail(user.email);
-        setNewPassword(user.password);
+        setNewPassword(''); // Hashes cannot be shown: blank keeps the current password
         setNewRole(user.role);
         setCreateError('');
         setIsUserModalOpen(true);
@@ -118,42 +247,21 @@ export const AdminView: React.FC = () => {
         setIsSubmitting(true);
 
         try {
-            const userPayload: User = {
+            const userPayload: UserProfile = {
                 id: userId,
                 name: newName,
                 email: newEmail,
-                password: newPassword,
                 role: newRole
             };
 
             if (isEditing) {
                 // Pass original email to handle key update (delete old -> create new)
-                await updateUser(userPayload, originalEmail);
+                await updateUser(userPayload, currentUser, originalEmail, newPassword || undefined);
             } else {
-                await createUser(userPayload);
-                
-                // --- EMAIL GENERATION LOGIC ---
-                // Since this is a client-side app, we open the default mail client
-                // with the credentials pre-filled.
-                const siteUrl = window.location.origin;
-                const subject = `Welcome to ${configAppName} - Your Access Details`;
-                const body = `Hello ${newName},
-
-You have been invited to collaborate on ${configAppName}.
-
-Here are your session details:
-- Site Link: ${siteUrl}
-- Session Email: ${newEmail}
-- Session Name: ${newName}
-- Session Password: ${newPassword}
-
-Please keep these credentials safe.
-
-Best regards,
-Admin`;
-
-                // Open mailto link in new window to avoid disrupting app flow
-                window.open(`mailto:${newEmail}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`);
+                // Unusable random password until the user picks one through the emailed link
+                await createUser(userPayload, generateToken());
+                const token = await issuePasswordReset(newEmail, currentUser);
+                sendResetEmail(newName, newEmail, token, true);
             }
             
             setIsUserModalOpen(false);
@@ -165,9 +273,53 @@ Admin`;
         }
     };
 
+    const handleSendResetLink = async (user: User) => {
+        if (window.confirm(`Send a password reset link to ${user.email}?`)) {
+            const token = await issuePasswordReset(user.email, currentUser);
+            sendResetEmail(user.name, user.email, token, false);
+        }
+    };
+
+    // --- EMAIL GENERATION LOGIC ---
+    // Since this is a client-side app, we open the default mail client
+    // with a one-time reset link pre-filled (never the password itself).
+    const sendResetEmail = (name: string, email: string, token: string, isWelcome: boolean) => {
+        const siteUrl = window.location.origin;
+        const resetLink = buildResetLink(email, token);
+        const validityHours = RESET_TOKEN_TTL_MS / (60 * 60 * 1000);
+
+        const subject = isWelcome
+            ? `Welcome to ${configAppName} - Your Access Details`
+            : `${configAppName} - Password Reset`;
+        const intro = isWelcome
+            ? `You have been invited to collaborate on ${configAppName}.`
+            : `A password reset was requested for your ${configAppName} account.`;
+        const body = `Hello ${name},
+
+${intro}
+
+Here are your session details:
+- Site Link: ${siteUrl}
+- Session Email: ${email}
+- Session Name: ${name}
+
+Choose your password with this one-time link (valid ${validityHours} hours):
+${resetLink}
+
+Best regards,
+Admin`;
+
+        // Open mailto link in new window to avoid disrupting app flow
+        window.open(`mailto:${email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`);
+    };
+
     const handleDeleteUser = async (email: string) => {
         if (window.confirm(`Are you sure you want to remove access for ${email}?`)) {
-            await deleteUser(email);
+            try {
+                await deleteUser(email, currentUser);
+            } catch (err: any) {
+                alert(err.message);
+            }
             fetchData();
         }
     };
@@ -179,7 +331,7 @@ Admin`;
         if (!newProjectName.trim()) return;
         setIsSubmitting(true);
         try {
-            await createProject(newProjectName);
+            await createProject(newProjectName, currentUser);
             setNewProjectName('');
             setIsCreatingProject(false);
             fetchData();
@@ -192,62 +344,155 @@ Admin`;
 
     const handleDeleteProject = async (id: string, name: string) => {
         if (window.confirm(`Delete project "${name}"? This cannot be undone.`)) {
-            await deleteProject(id);
+            try {
+                await deleteProject(id, currentUser);
+            } catch (err: any) {
+                alert(err.message);
+            }
             fetchData();
         }
     };
 
-    // --- Filtering ---
-    const filteredLogs = logs.filter(log => {
-        const matchSearch = log.userEmail.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                            log.prompt.toLowerCase().includes(searchTerm.toLowerCase());
-        
-        const matchUser = filterUser ? log.userEmail === filterUser : true;
-        const matchProject = filterProject ? log.projectId === filterProject : true;
+    // --- Member Handlers ---
 
-        // Date Range Logic
-        let matchDate = true;
-        const logTime = log.timestamp;
-        
-        if (startDate) {
-            const start = new Date(startDate).setHours(0,0,0,0);
-            if (logTime < start) matchDate = false;
+    const openMembersModal = (project: Project) => {
+        setMembersProject(project);
+        setMemberDraft(project.members || []);
+        setMembersError('');
+    };
+
+    const toggleMember = (user: User) => {
+        setMemberDraft(prev => prev.some(m => m.userId === user.id)
+            ? prev.filter(m => m.userId !== user.id)
+            : [...prev, { userId: user.id, role: 'member' }]);
+    };
+
+    const setMemberRole = (userId: string, role: ProjectMemberRole) => {
+        setMemberDraft(prev => prev.map(m => m.userId === userId ? { ...m, role } : m));
+    };
+
+    const handleSaveMembers = async () => {
+        if (!membersProject) return;
+        setIsSubmitting(true);
+        setMembersError('');
+        try {
+            await setProjectMembers(membersProject.id, memberDraft, currentUser);
+            setMembersProject(null);
+            fetchData();
+        } catch (err: any) {
+            setMembersError(err.message || "Failed to save members");
+        } finally {
+            setIsSubmitting(false);
         }
-        
-        if (endDate) {
-            const end = new Date(endDate).setHours(23,59,59,999);
-            if (logTime > end) matchDate = false;
+    };
+
+    // --- Budget Handlers ---
+
+    const openBudgetModal = (scope: BudgetScope, id: string, name: string, budget?: BudgetLimit) => {
+        setBudgetTarget({ scope, id, name, budget });
+        setBudgetAmount(budget ? String(budget.amount) : '');
+        setBudgetPeriod(budget?.period || 'monthly');
+        setBudgetWarnPercent(String(Math.round((budget?.warnAt ?? DEFAULT_WARN_AT) * 100)));
+        setBudgetError('');
+    };
+
+    const handleSaveBudget = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!budgetTarget) return;
+
+        // An empty amount removes the budget
+        let budget: BudgetLimit | undefined;
+        if (budgetAmount.trim()) {
+            const amount = parseFloat(budgetAmount);
+            const warnPercent = parseFloat(budgetWarnPercent);
+            if (!(amount > 0)) {
+                setBudgetError('Amount must be a positive number');
+                return;
+            }
+            if (!(warnPercent > 0 && warnPercent <= 100)) {
+                setBudgetError('Warning threshold must be between 1 and 100%');
+                return;
+            }
+            const previous = budgetTarget.budget;
+            budget = {
+                amount,
+                period: budgetPeriod,
+                warnAt: warnPercent / 100,
+                // Keep counting from the same date when a one-off budget is only adjusted
+                startsAt: previous?.period === 'one_off' && budgetPeriod === 'one_off' ? previous.startsAt : Date.now()
+            };
         }
 
-        return matchSearch && matchUser && matchProject && matchDate;
-    });
+        setIsSubmitting(true);
+        setBudgetError('');
+        try {
+            if (budgetTarget.scope === 'project') {
+                await setProjectBudget(budgetTarget.id, budget, currentUser);
+            } else {
+                await setUserBudget(budgetTarget.id, budget, currentUser);
+            }
+            setBudgetTarget(null);
+            fetchData();
+        } catch (err: any) {
+            setBudgetError(err.message || "Failed to save budget");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    // Projects this dashboard can act on: all for admins, managed ones for project managers
+    const managedProjects = projects.filter(p => managesProject(currentUser, p));
+
+    // Admins see every project anyway, so only other accounts can be assigned
+    const assignableUsers = users.filter(u => u.role !== 'admin');
+
+    // --- Filtering ---
+    // Same filters for the activity table and the cost ledger behind the totals
+    const matchesFilters = (entry: CostEntry) => {
+        const matchSearch = entry.userEmail.toLowerCase().includes(search.toLowerCase()) || 
+                            entry.prompt.toLowerCase().includes(search.toLowerCase());
+        
+        const matchUser = filterUser ? entry.userId === filterUser : true;
+        const matchProject = filterProject ? entry.projectId === filterProject : true;
+        const matchAction = filterAction ? entry.action === filterAction : true;
+        const matchDate = (since === undefined || entry.timestamp >= since) && (until === undefined || entry.timestamp <= until);
+
+        return matchSearch && matchUser && matchProject && matchAction && matchDate;
+    };
+
+    const filteredCosts = costs.filter(matchesFilters);
 
     const clearFilters = () => {
         setFilterUser('');
         setFilterProject('');
+        setFilterAction('');
         setStartDate('');
         setEndDate('');
         setSearchTerm('');
     };
     
     // --- Cost Calculation ---
-    const totalCost = filteredLogs.reduce((acc, log) => acc + (log.cost || 0), 0);
+    const totalCost = filteredCosts.reduce((acc, entry) => acc + entry.cost, 0);
 
     // --- Report Export ---
+    // One row per billed API call, from the cost ledger
     const downloadFinancialReport = () => {
-        const headers = ["Timestamp", "User Email", "Project ID", "Project Name", "Action", "Cost (USD)", "Details", "Prompt"];
+        const headers = ["Timestamp", "User Email", "Project ID", "Project Name", "Action", "Model", "Resolution", "Images", "Unit Price (USD)", "Cost (USD)", "Prompt"];
         
-        const rows = filteredLogs.map(log => {
-            const projName = projects.find(p => p.id === log.projectId)?.name || 'N/A';
+        const rows = filteredCosts.map(entry => {
+            const projName = projects.find(p => p.id === entry.projectId)?.name || 'N/A';
             return [
-                new Date(log.timestamp).toLocaleString().replace(',', ''),
-                log.userEmail,
-                log.projectId || 'N/A',
+                new Date(entry.timestamp).toLocaleString().replace(',', ''),
+                entry.userEmail,
+                entry.projectId || 'N/A',
                 `"${projName}"`,
-                log.action,
-                (log.cost || 0).toFixed(4),
-                `"${log.details}"`, 
-                `"${log.prompt.replace(/"/g, '""')}"` 
+                entry.action,
+                entry.model,
+                entry.resolution || 'N/A',
+                entry.imageCount,
+                entry.unitPrice.toFixed(4),
+                entry.cost.toFixed(4),
+                `"${entry.prompt.replace(/"/g, '""')}"` 
             ]
         });
 
@@ -274,10 +519,12 @@ Admin`;
                         <ShieldCheck className="w-6 h-6 text-green-400" />
                         Admin Dashboard
                     </h2>
-                    <p className="text-zinc-500 text-sm mt-1">Manage users, projects, and view activity.</p>
+                    <p className="text-zinc-500 text-sm mt-1">
+                        {canManageUsers ? 'Manage users, projects, and view activity.' : 'Manage your projects and view their activity.'}
+                    </p>
                 </div>
                 <button 
-                    onClick={fetchData}
+                    onClick={() => { fetchData(); reloadLogs(); }}
                     className="p-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg border border-zinc-700 transition-colors"
                     title="Refresh Data"
                 >
@@ -286,6 +533,7 @@ Admin`;
             </div>
 
             {/* --- Branding Configuration --- */}
+            {canManageSettings && (
             <div className="space-y-4">
                  <h3 className="text-xl font-bold text-zinc-200 flex items-center gap-2">
                     <Settings className="w-5 h-5 text-pink-400" />
@@ -324,6 +572,19 @@ Admin`;
                                 )}
                             </div>
                         </div>
+
+                        <div className="space-y-2 md:col-span-2">
+                            <label className="text-xs font-medium text-zinc-400 uppercase">Studio Server Access Key</label>
+                            <input
+                                type="password"
+                                value={serverAccessKey}
+                                onChange={(e) => setServerAccessKey(e.target.value)}
+                                className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-4 py-2.5 text-zinc-200 outline-none focus:ring-2 focus:ring-pink-500"
+                                placeholder="STUDIO_ACCESS_KEY of the server"
+                                autoComplete="off"
+                            />
+                            <p className="text-xs text-zinc-500">Required by the server for every Gemini call. Stored in this browser only and never included in backups.</p>
+                        </div>
                     </div>
                     
                     <div className="mt-6 flex justify-end">
@@ -331,11 +592,77 @@ Admin`;
                             onClick={handleSaveConfig}
                             className={`flex items-center gap-2 px-6 py-2 rounded-lg font-bold text-sm transition-all ${configSaved ? 'bg-green-600 text-white' : 'bg-pink-600 hover:bg-pink-500 text-white'}`}
                         >
-                            {configSaved ? 'Saved!' : 'Save Branding'}
+                            {configSaved ? 'Saved!' : 'Save Settings'}
                         </button>
                     </div>
                 </div>
             </div>
+            )}
+
+            {/* --- Backup & Restore --- */}
+            {canBackup && (
+            <div className="space-y-4">
+                <h3 className="text-xl font-bold text-zinc-200 flex items-center gap-2">
+                    <DatabaseBackup className="w-5 h-5 text-cyan-400" />
+                    Backup & Restore
+                </h3>
+
+                <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-6 space-y-6">
+                    <p className="text-sm text-zinc-500">
+                        All the data of this studio lives in this browser only. Export it into a single zip to move it to another machine or to keep it safe.
+                    </p>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <div className="space-y-2">
+                            <label className="text-xs font-medium text-zinc-400 uppercase">Export</label>
+                            <button
+                                onClick={handleExportBackup}
+                                disabled={isExporting || isImporting}
+                                className="flex items-center gap-2 px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg border border-zinc-700 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
+                                Download Backup
+                            </button>
+                        </div>
+
+                        <div className="space-y-2">
+                            <label className="text-xs font-medium text-zinc-400 uppercase">Import</label>
+                            <div className="flex flex-wrap items-center gap-2">
+                                <select
+                                    value={importMode}
+                                    onChange={(e) => setImportMode(e.target.value as ImportMode)}
+                                    className="bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-xs text-zinc-200 focus:ring-1 focus:ring-cyan-500 outline-none"
+                                >
+                                    <option value="merge">Merge into current data</option>
+                                    <option value="restore">Restore (replace everything)</option>
+                                </select>
+                                {importMode === 'merge' && (
+                                    <select
+                                        value={conflictPolicy}
+                                        onChange={(e) => setConflictPolicy(e.target.value as ConflictPolicy)}
+                                        className="bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-xs text-zinc-200 focus:ring-1 focus:ring-cyan-500 outline-none"
+                                        title="When a record exists on both sides"
+                                    >
+                                        <option value="keep">On conflict: keep current</option>
+                                        <option value="replace">On conflict: use backup</option>
+                                    </select>
+                                )}
+                                <label className={`flex items-center gap-2 px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg border border-zinc-700 transition-colors text-sm ${isImporting || isExporting ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+                                    {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <ArchiveRestore className="w-4 h-4" />}
+                                    Import Backup
+                                    <input type="file" accept=".zip,application/zip" className="hidden" onChange={handleImportBackup} />
+                                </label>
+                            </div>
+                        </div>
+                    </div>
+
+                    {backupError && <p className="text-sm text-red-400">{backupError}</p>}
+                    {importSummary && (
+                        <pre className="text-xs text-zinc-400 bg-zinc-950 border border-zinc-800 rounded-lg p-4 whitespace-pre-wrap">{importSummary}</pre>
+                    )}
+                </div>
+            </div>
+            )}
 
             {/* --- Project Management Section --- */}
             <div className="space-y-4">
@@ -344,12 +671,14 @@ Admin`;
                         <Folder className="w-5 h-5 text-blue-400" />
                         Project Management
                     </h3>
-                    <button 
-                        onClick={() => setIsCreatingProject(true)}
-                        className="text-xs bg-blue-600 hover:bg-blue-500 text-white px-3 py-1.5 rounded-lg font-medium transition-colors flex items-center gap-1"
-                    >
-                        <FolderPlus className="w-3.5 h-3.5" /> New Project
-                    </button>
+                    {canManageProjects && (
+                        <button 
+                            onClick={() => setIsCreatingProject(true)}
+                            className="text-xs bg-blue-600 hover:bg-blue-500 text-white px-3 py-1.5 rounded-lg font-medium transition-colors flex items-center gap-1"
+                        >
+                            <FolderPlus className="w-3.5 h-3.5" /> New Project
+                        </button>
+                    )}
                 </div>
                 
                 <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl overflow-hidden">
@@ -359,12 +688,14 @@ Admin`;
                                 <tr>
                                     <th className="px-6 py-3">Project Name</th>
                                     <th className="px-6 py-3">Images Generated</th>
+                                    <th className="px-6 py-3">Members</th>
+                                    <th className="px-6 py-3">Budget</th>
                                     <th className="px-6 py-3">Created</th>
                                     <th className="px-6 py-3 text-right">Actions</th>
                                 </tr>
                             </thead>
                             <tbody className="divide-y divide-zinc-800/50">
-                                {projects.map(proj => (
+                                {managedProjects.map(proj => (
                                     <tr key={proj.id} className="hover:bg-zinc-900/30">
                                         <td className="px-6 py-3 font-medium text-zinc-200">{proj.name}</td>
                                         <td className="px-6 py-3">
@@ -373,15 +704,40 @@ Admin`;
                                                 <span className="font-bold">{proj.imageCount || 0}</span>
                                             </div>
                                         </td>
+                                        <td className="px-6 py-3">
+                                            <div className="flex items-center gap-2">
+                                                <Users className="w-4 h-4 text-zinc-500" />
+                                                <span>{proj.members?.length || 0}</span>
+                                            </div>
+                                        </td>
+                                        <td className="px-6 py-3 text-xs">{formatBudget(proj.budget)}</td>
                                         <td className="px-6 py-3">{new Date(proj.createdAt).toLocaleDateString()}</td>
                                         <td className="px-6 py-3 text-right">
                                             <button 
-                                                onClick={() => handleDeleteProject(proj.id, proj.name)}
-                                                className="text-zinc-500 hover:text-red-400 transition-colors p-1"
-                                                title="Delete Project"
+                                                onClick={() => openMembersModal(proj)}
+                                                className="text-zinc-500 hover:text-blue-400 transition-colors p-1"
+                                                title="Manage Members"
                                             >
-                                                <Trash2 className="w-4 h-4" />
+                                                <Users className="w-4 h-4" />
                                             </button>
+                                            {canManageBudgets && (
+                                                <button 
+                                                    onClick={() => openBudgetModal('project', proj.id, proj.name, proj.budget)}
+                                                    className="text-zinc-500 hover:text-green-400 transition-colors p-1"
+                                                    title="Set Budget"
+                                                >
+                                                    <DollarSign className="w-4 h-4" />
+                                                </button>
+                                            )}
+                                            {canManageProjects && (
+                                                <button 
+                                                    onClick={() => handleDeleteProject(proj.id, proj.name)}
+                                                    className="text-zinc-500 hover:text-red-400 transition-colors p-1"
+                                                    title="Delete Project"
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </button>
+                                            )}
                                         </td>
                                     </tr>
                                 ))}
@@ -392,6 +748,7 @@ Admin`;
             </div>
 
             {/* --- User Management Section --- */}
+            {canManageUsers && (
             <div className="space-y-4">
                 <div className="flex justify-between items-center">
                     <h3 className="text-xl font-bold text-zinc-200 flex items-center gap-2">
@@ -414,6 +771,7 @@ Admin`;
                                     <th className="px-6 py-3">Name</th>
                                     <th className="px-6 py-3">Email</th>
                                     <th className="px-6 py-3">Role</th>
+                                    <th className="px-6 py-3">Budget</th>
                                     <th className="px-6 py-3 text-right">Actions</th>
                                 </tr>
                             </thead>
@@ -423,10 +781,11 @@ Admin`;
                                         <td className="px-6 py-3 font-medium text-zinc-200">{user.name}</td>
                                         <td className="px-6 py-3">{user.email}</td>
                                         <td className="px-6 py-3">
-                                            <span className={`text-xs px-2 py-0.5 rounded border ${user.role === 'admin' ? 'border-green-500/30 text-green-400 bg-green-500/10' : 'border-zinc-700 bg-zinc-800'}`}>
-                                                {user.role}
+                                            <span className={`text-xs px-2 py-0.5 rounded border ${ROLE_BADGE_STYLES[user.role] || ROLE_BADGE_STYLES.viewer}`}>
+                                                {ROLE_LABELS[user.role] || user.role}
                                             </span>
                                         </td>
+                                        <td className="px-6 py-3 text-xs">{formatBudget(user.budget)}</td>
                                         <td className="px-6 py-3 text-right">
                                             <div className="flex items-center justify-end gap-2">
                                                 <button 
@@ -436,7 +795,21 @@ Admin`;
                                                 >
                                                     <Pencil className="w-4 h-4" />
                                                 </button>
-                                                {user.role !== 'admin' || user.email !== 'karim.benkiran@dprgroup.com' ? (
+                                                <button 
+                                                    onClick={() => handleSendResetLink(user)}
+                                                    className="text-zinc-500 hover:text-yellow-400 transition-colors p-1"
+                                                    title="Send Password Reset Link"
+                                                >
+                                                    <KeyRound className="w-4 h-4" />
+                                                </button>
+                                                <button 
+                                                    onClick={() => openBudgetModal('user', user.email, user.name, user.budget)}
+                                                    className="text-zinc-500 hover:text-green-400 transition-colors p-1"
+                                                    title="Set Budget"
+                                                >
+                                                    <DollarSign className="w-4 h-4" />
+                                                </button>
+                                                {user.email !== currentUser.email && !(user.role === 'admin' && adminCount === 1) ? (
                                                     <button 
                                                         onClick={() => handleDeleteUser(user.email)}
                                                         className="text-zinc-500 hover:text-red-400 transition-colors p-1"
@@ -456,8 +829,10 @@ Admin`;
                     </div>
                 </div>
             </div>
+            )}
 
             {/* --- Activity Logs Section --- */}
+            {canViewLogs && (
             <div className="space-y-4">
                 <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
                     <h3 className="text-xl font-bold text-zinc-200 flex items-center gap-2">
@@ -484,7 +859,7 @@ Admin`;
                             className="bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-xs text-zinc-200 focus:ring-1 focus:ring-purple-500 outline-none"
                         >
                             <option value="">All Users</option>
-                            {users.map(u => <option key={u.email} value={u.email}>{u.name}</option>)}
+                            {users.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
                         </select>
 
                         <select 
@@ -493,7 +868,16 @@ Admin`;
                             className="bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-xs text-zinc-200 focus:ring-1 focus:ring-purple-500 outline-none"
                         >
                             <option value="">All Projects</option>
-                            {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                            {managedProjects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+
+                        <select 
+                            value={filterAction}
+                            onChange={(e) => setFilterAction(e.target.value as ActivityLog['action'] | '')}
+                            className="bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-xs text-zinc-200 focus:ring-1 focus:ring-purple-500 outline-none"
+                        >
+                            <option value="">All Actions</option>
+                            {LOG_ACTIONS.map(action => <option key={action} value={action}>{action}</option>)}
                         </select>
 
                         <div className="flex items-center gap-1">
@@ -514,7 +898,7 @@ Admin`;
                             />
                         </div>
                         
-                        {(filterUser || filterProject || startDate || endDate || searchTerm) && (
+                        {(filterUser || filterProject || filterAction || startDate || endDate || searchTerm) && (
                             <button 
                                 onClick={clearFilters}
                                 className="text-xs text-red-400 hover:text-red-300"
@@ -539,7 +923,7 @@ Admin`;
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-zinc-800/50">
-                            {filteredLogs.map(log => {
+                            {logs.map(log => {
                                 const projName = projects.find(p => p.id === log.projectId)?.name || 'N/A';
                                 return (
                                     <tr key={log.id} className="hover:bg-zinc-900/30 transition-colors">
@@ -563,15 +947,15 @@ Admin`;
                                         </td>
                                         <td className="px-6 py-4">
                                             {log.thumbnailUrl && (
-                                                <a href={log.thumbnailUrl} target="_blank" rel="noreferrer" className="block w-8 h-8 rounded bg-zinc-800 border border-zinc-700 overflow-hidden">
-                                                    <img src={log.thumbnailUrl} alt="log" className="w-full h-full object-cover" />
-                                                </a>
+                                                <button onClick={() => openImage(log.thumbnailUrl!)} className="block w-8 h-8 rounded bg-zinc-800 border border-zinc-700 overflow-hidden">
+                                                    <StoredImage image={log.thumbnailUrl} thumbnail alt="log" className="w-full h-full object-cover" />
+                                                </button>
                                             )}
                                         </td>
                                     </tr>
                                 );
                             })}
-                            {filteredLogs.length === 0 && (
+                            {!logsLoading && logs.length === 0 && (
                                 <tr><td colSpan={7} className="px-6 py-8 text-center">No logs match your filter.</td></tr>
                             )}
                         </tbody>
@@ -585,19 +969,21 @@ Admin`;
                             </tr>
                         </tfoot>
                     </table>
+                    {hasMoreLogs && <LoadMoreSentinel onVisible={loadMoreLogs} loading={logsLoading} />}
                 </div>
                 
                 {/* Financial Export */}
                 <div className="flex justify-end">
                     <button 
                         onClick={downloadFinancialReport}
-                        disabled={filteredLogs.length === 0}
+                        disabled={filteredCosts.length === 0}
                         className="flex items-center gap-2 bg-green-700/20 hover:bg-green-700/30 text-green-400 border border-green-700/50 px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                         <FileDown className="w-4 h-4" /> Download Financial Report
                     </button>
                 </div>
             </div>
+            )}
 
             {/* Create Project Modal */}
             {isCreatingProject && (
@@ -630,6 +1016,139 @@ Admin`;
                 </div>
             )}
 
+            {/* Project Members Modal */}
+            {membersProject && (
+                <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+                    <div className="bg-zinc-900 border border-zinc-800 rounded-2xl w-full max-w-lg p-6 shadow-2xl relative animate-in zoom-in-95 duration-200">
+                        <button onClick={() => setMembersProject(null)} className="absolute top-4 right-4 text-zinc-500 hover:text-white"><X className="w-5 h-5" /></button>
+                        <h3 className="text-lg font-bold text-white mb-1">Members of {membersProject.name}</h3>
+                        <p className="text-zinc-500 text-sm mb-6">Only members see this project, its history and its sessions. Admins always have access.</p>
+
+                        <div className="max-h-80 overflow-y-auto divide-y divide-zinc-800/50 border border-zinc-800 rounded-xl">
+                            {assignableUsers.map(user => {
+                                const membership = memberDraft.find(m => m.userId === user.id);
+                                return (
+                                    <div key={user.id} className="flex items-center justify-between gap-3 px-4 py-3">
+                                        <label className="flex items-center gap-3 cursor-pointer min-w-0">
+                                            <input 
+                                                type="checkbox"
+                                                checked={!!membership}
+                                                onChange={() => toggleMember(user)}
+                                                className="accent-blue-500"
+                                            />
+                                            <div className="min-w-0">
+                                                <div className="text-sm text-zinc-200 truncate">{user.name}</div>
+                                                <div className="text-xs text-zinc-500 truncate">{user.email} · {ROLE_LABELS[user.role] || user.role}</div>
+                                            </div>
+                                        </label>
+                                        {membership && user.role === 'project_manager' && (
+                                            <select 
+                                                value={membership.role}
+                                                onChange={e => setMemberRole(user.id, e.target.value as ProjectMemberRole)}
+                                                className="bg-zinc-950 border border-zinc-700 rounded-lg px-2 py-1 text-xs text-zinc-200 outline-none focus:ring-1 focus:ring-blue-500"
+                                            >
+                                                <option value="member">Member</option>
+                                                <option value="manager">Manager</option>
+                                            </select>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                            {assignableUsers.length === 0 && (
+                                <div className="px-4 py-6 text-center text-sm text-zinc-500">No users to assign yet.</div>
+                            )}
+                        </div>
+
+                        {membersError && (
+                            <div className="mt-4 p-3 bg-red-900/20 border border-red-900/50 rounded-lg text-red-300 text-sm">
+                                {membersError}
+                            </div>
+                        )}
+
+                        <button 
+                            onClick={handleSaveMembers}
+                            disabled={isSubmitting}
+                            className="w-full mt-6 bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 rounded-xl transition-all flex items-center justify-center gap-2"
+                        >
+                            {isSubmitting ? <Loader2 className="w-5 h-5 animate-spin" /> : "Save Members"}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Budget Modal (Project / User) */}
+            {budgetTarget && (
+                <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+                    <div className="bg-zinc-900 border border-zinc-800 rounded-2xl w-full max-w-md p-6 shadow-2xl relative animate-in zoom-in-95 duration-200">
+                        <button onClick={() => setBudgetTarget(null)} className="absolute top-4 right-4 text-zinc-500 hover:text-white"><X className="w-5 h-5" /></button>
+                        <h3 className="text-lg font-bold text-white mb-1">Budget of {budgetTarget.name}</h3>
+                        <p className="text-zinc-500 text-sm mb-6">
+                            {budgetTarget.scope === 'project'
+                                ? 'Generations in this project are blocked once the budget is spent.'
+                                : 'Generations by this user, in any project, are blocked once the budget is spent.'}
+                        </p>
+                        <form onSubmit={handleSaveBudget} className="space-y-4">
+                            <div className="space-y-2">
+                                <label className="text-xs font-medium text-zinc-400 uppercase">Amount (USD)</label>
+                                <div className="relative">
+                                    <DollarSign className="absolute left-3 top-3 w-4 h-4 text-zinc-600" />
+                                    <input 
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        value={budgetAmount}
+                                        onChange={e => setBudgetAmount(e.target.value)}
+                                        className="w-full bg-zinc-950 border border-zinc-700 rounded-xl pl-9 pr-4 py-2.5 text-zinc-200 outline-none focus:ring-2 focus:ring-green-500"
+                                        placeholder="Leave blank for no limit"
+                                    />
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <label className="text-xs font-medium text-zinc-400 uppercase">Period</label>
+                                    <select 
+                                        value={budgetPeriod}
+                                        onChange={e => setBudgetPeriod(e.target.value as BudgetPeriod)}
+                                        className="w-full bg-zinc-950 border border-zinc-700 rounded-xl px-4 py-2.5 text-zinc-200 outline-none focus:ring-2 focus:ring-green-500"
+                                    >
+                                        <option value="monthly">Monthly</option>
+                                        <option value="one_off">One-off</option>
+                                    </select>
+                                </div>
+                                <div className="space-y-2">
+                                    <label className="text-xs font-medium text-zinc-400 uppercase">Warn At (%)</label>
+                                    <input 
+                                        type="number"
+                                        min="1"
+                                        max="100"
+                                        value={budgetWarnPercent}
+                                        onChange={e => setBudgetWarnPercent(e.target.value)}
+                                        className="w-full bg-zinc-950 border border-zinc-700 rounded-xl px-4 py-2.5 text-zinc-200 outline-none focus:ring-2 focus:ring-green-500"
+                                    />
+                                </div>
+                            </div>
+                            <p className="text-[10px] text-zinc-500">
+                                {budgetPeriod === 'monthly' ? 'Spending restarts from zero on the 1st of each month.' : 'Spending is counted from the day the budget is set.'}
+                            </p>
+
+                            {budgetError && (
+                                <div className="p-3 bg-red-900/20 border border-red-900/50 rounded-lg text-red-300 text-sm">
+                                    {budgetError}
+                                </div>
+                            )}
+
+                            <button 
+                                type="submit" 
+                                disabled={isSubmitting}
+                                className="w-full bg-green-600 hover:bg-green-500 text-white font-bold py-3 rounded-xl transition-all flex items-center justify-center gap-2"
+                            >
+                                {isSubmitting ? <Loader2 className="w-5 h-5 animate-spin" /> : "Save Budget"}
+                            </button>
+                        </form>
+                    </div>
+                </div>
+            )}
+
             {/* User Modal (Create / Edit) */}
             {isUserModalOpen && (
                 <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -682,20 +1201,26 @@ Admin`;
                                 )}
                             </div>
 
-                            <div className="space-y-2">
-                                <label className="text-xs font-medium text-zinc-400 uppercase">Password</label>
-                                <div className="relative">
-                                    <Lock className="absolute left-3 top-3 w-4 h-4 text-zinc-600" />
-                                    <input 
-                                        type="text" 
-                                        required
-                                        value={newPassword}
-                                        onChange={e => setNewPassword(e.target.value)}
-                                        className="w-full bg-zinc-950 border border-zinc-700 rounded-xl pl-9 pr-4 py-2.5 text-zinc-200 outline-none focus:ring-2 focus:ring-purple-500"
-                                        placeholder="••••••••"
-                                    />
+                            {isEditing ? (
+                                <div className="space-y-2">
+                                    <label className="text-xs font-medium text-zinc-400 uppercase">Temporary Password</label>
+                                    <div className="relative">
+                                        <Lock className="absolute left-3 top-3 w-4 h-4 text-zinc-600" />
+                                        <input 
+                                            type="text" 
+                                            value={newPassword}
+                                            onChange={e => setNewPassword(e.target.value)}
+                                            className="w-full bg-zinc-950 border border-zinc-700 rounded-xl pl-9 pr-4 py-2.5 text-zinc-200 outline-none focus:ring-2 focus:ring-purple-500"
+                                            placeholder="Leave blank to keep current password"
+                                        />
+                                    </div>
+                                    <p className="text-[10px] text-zinc-500">The user will have to choose a new password at next login.</p>
                                 </div>
-                            </div>
+                            ) : (
+                                <p className="text-xs text-zinc-500 bg-zinc-950 border border-zinc-800 rounded-lg p-3">
+                                    Your mail client will open with a one-time link for the user to choose their own password.
+                                </p>
+                            )}
 
                             <div className="space-y-2">
                                 <label className="text-xs font-medium text-zinc-400 uppercase">Role</label>
@@ -704,8 +1229,9 @@ Admin`;
                                     onChange={e => setNewRole(e.target.value as UserRole)}
                                     className="w-full bg-zinc-950 border border-zinc-700 rounded-xl px-4 py-2.5 text-zinc-200 outline-none focus:ring-2 focus:ring-purple-500"
                                 >
-                                    <option value="user">User (Collaborator)</option>
-                                    <option value="admin">Admin</option>
+                                    {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => (
+                                        <option key={role} value={role}>{ROLE_LABELS[role]} ({ROLE_DESCRIPTIONS[role]})</option>
+                                    ))}
                                 </select>
                             </div>
 
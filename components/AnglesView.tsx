@@ -1,14 +1,18 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { generateAngleVariation } from '../services/gemini';
-import { Loader2, Upload, Download, ArrowRight, X, Info, Box, Sparkles, Clock, Trash2, Layout, Frame, Layers, Folder, DollarSign, ChevronDown, Plus, Monitor } from 'lucide-react';
-import { addConsumedCredits, PRICE_PER_IMAGE_PRO, PRICE_PER_IMAGE_4K, formatCurrency } from '../services/credits';
-import { saveImageToHistory, getImageHistory, deleteImageFromHistory, getProjects, logActivity, incrementProjectImageCount } from '../services/db';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { generateAngleVariation, dataUrlToFile } from '../services/gemini';
+import { Loader2, Upload, Download, ArrowRight, X, Info, Box, Sparkles, Clock, Trash2, Layout, Frame, Layers, Folder, DollarSign, ChevronDown, Plus, Monitor, Wand2 } from 'lucide-react';
+import { getProImagePrice, formatCurrency } from '../services/credits';
+import { saveImageToHistory, getAngleHistoryPage, deleteImageFromHistory, getProjects, incrementProjectImageCount, loadImageDataUrl, ANGLES_WORKSPACE } from '../services/db';
 import { GeneratedImage, AspectRatio, Resolution, Project, User } from '../types';
+import { BlobImage, downloadImage, StoredImage } from './StoredImage';
+import { LoadMoreSentinel, usePaginatedQuery } from './InfiniteScroll';
 
 interface AnglesViewProps {
     initialSourceImage?: string | null;
     onConsumeInitialSource?: () => void;
     currentUser: User;
+    onProjectChange?: (projectId: string) => void;
+    onJumpToEdit?: (imageUrl: string) => void;
 }
 
 interface SessionGroup {
@@ -17,7 +21,7 @@ interface SessionGroup {
     timestamp: number;
 }
 
-export const AnglesView: React.FC<AnglesViewProps> = ({ initialSourceImage, onConsumeInitialSource, currentUser }) => {
+export const AnglesView: React.FC<AnglesViewProps> = ({ initialSourceImage, onConsumeInitialSource, currentUser, onProjectChange, onJumpToEdit }) => {
   const [sourceImage, setSourceImage] = useState<File | null>(null);
   const [resultImage, setResultImage] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
@@ -28,7 +32,7 @@ export const AnglesView: React.FC<AnglesViewProps> = ({ initialSourceImage, onCo
   const [selectedProjectId, setSelectedProjectId] = useState<string>('');
 
   // History State
-  const [sessionGroups, setSessionGroups] = useState<SessionGroup[]>([]);
+  const history = usePaginatedQuery(after => getAngleHistoryPage(currentUser, after), [currentUser]);
   const [currentSessionId, setCurrentSessionId] = useState<string>("");
 
   // Angle State
@@ -46,25 +50,21 @@ export const AnglesView: React.FC<AnglesViewProps> = ({ initialSourceImage, onCo
   const lastMousePos = useRef({ x: 0, y: 0 });
 
   useEffect(() => {
-    loadData();
+    loadProjects();
   }, []);
 
+  // The nav budget widget follows the selected project
+  useEffect(() => {
+    if (selectedProjectId) onProjectChange?.(selectedProjectId);
+  }, [selectedProjectId, onProjectChange]);
+
   // Handle incoming image from other tabs (like Generate)
   useEffect(() => {
     if (initialSourceImage && onConsumeInitialSource) {
-        try {
-            const arr = initialSourceImage.split(',');
-            const mimeMatch = arr[0].match(/:(.*?);/);
-            if (mimeMatch) {
-                const mime = mimeMatch[1];
-                const bstr = atob(arr[1]);
-                let n = bstr.length;
-                const u8arr = new Uint8Array(n);
-                while(n--){
-                    u8arr[n] = bstr.charCodeAt(n);
-                }
-                const file = new File([u8arr], "source_angle.png", {type:mime});
-                
+        const loadInitialSource = async () => {
+            try {
+                const file = dataUrlToFile(await loadImageDataUrl(initialSourceImage), "source_angle.png");
+
                 // Start a new session automatically
                 const newSessionId = crypto.randomUUID();
                 setCurrentSessionId(newSessionId);
@@ -73,41 +73,33 @@ export const AnglesView: React.FC<AnglesViewProps> = ({ initialSourceImage, onCo
                 setResultImage(null);
                 setRotation(30);
                 setTilt(0);
+            } catch (e) {
+                console.error("Failed to convert initial image", e);
             }
-        } catch (e) {
-            console.error("Failed to convert initial image", e);
-        }
+        };
+        loadInitialSource();
         onConsumeInitialSource();
     }
   }, [initialSourceImage, onConsumeInitialSource]);
 
-  const loadData = async () => {
-      // Load History
-      const allImages = await getImageHistory();
-      // Filter history to show only images relevant to the Angles tool
-      const angleImages = allImages.filter(img => 
-          img.projectName === 'Angles Workspace' || 
-          img.prompt.includes('Camera Rotation:')
-      );
-      
-      // Group by Session ID (stored in systemInstruction for this tool)
+  // Group by Session ID (stored in systemInstruction for this tool)
+  const sessionGroups = useMemo(() => {
       const groups: Record<string, GeneratedImage[]> = {};
-      angleImages.forEach(img => {
+      history.items.forEach(img => {
           const sId = img.systemInstruction || 'legacy'; // Using systemInstruction to store session ID hack
           if (!groups[sId]) groups[sId] = [];
           groups[sId].push(img);
       });
 
-      const groupArray: SessionGroup[] = Object.keys(groups).map(key => ({
+      return Object.keys(groups).map((key): SessionGroup => ({
           sessionId: key,
           images: groups[key],
           timestamp: groups[key][0]?.timestamp || 0
       })).sort((a, b) => b.timestamp - a.timestamp);
+  }, [history.items]);
 
-      setSessionGroups(groupArray);
-
-      // Load Projects
-      const projList = await getProjects();
+  const loadProjects = async () => {
+      const projList = await getProjects(currentUser);
       setProjects(projList);
       if (projList.length > 0 && !selectedProjectId) {
           setSelectedProjectId(projList[0].id);
@@ -142,7 +134,7 @@ export const AnglesView: React.FC<AnglesViewProps> = ({ initialSourceImage, onCo
   };
 
   const getEstimatedCost = () => {
-      return resolution === Resolution.RES_4K ? PRICE_PER_IMAGE_4K : PRICE_PER_IMAGE_PRO;
+      return getProImagePrice(resolution);
   };
 
   const handleGenerate = async () => {
@@ -159,45 +151,28 @@ export const AnglesView: React.FC<AnglesViewProps> = ({ initialSourceImage, onCo
     if (!currentSessionId) setCurrentSessionId(activeSessionId);
 
     try {
-      const result = await generateAngleVariation(sourceImage, rotation, tilt, zoom, aspectRatio, resolution, prompt);
-      if (!result) {
-        setError("Could not generate angle variation.");
-      } else {
-        setResultImage(result);
-        
-        // Cost Tracking
-        const cost = getEstimatedCost();
-        addConsumedCredits(cost);
-        await incrementProjectImageCount(selectedProjectId, 1);
-
-        // Save to History with Session ID
-        const promptDesc = `Angle: ${rotation}°, ${tilt}°, ${zoom} ${prompt ? `| ${prompt}` : ''}`;
-        const newRecord: GeneratedImage = {
-            id: crypto.randomUUID(),
-            url: result,
-            prompt: promptDesc,
-            systemInstruction: activeSessionId, // Storing Session ID here
-            timestamp: Date.now(),
-            projectId: selectedProjectId,
-            projectName: 'Angles Workspace'
-        };
-        
-        await saveImageToHistory(newRecord);
-        
-        // Log Activity
-        await logActivity(
-            currentUser.id,
-            currentUser.email,
-            'GENERATE',
-            promptDesc,
-            'Angle Variation Generated',
-            result,
-            selectedProjectId,
-            cost
-        );
-        
-        await loadData(); // Reload groups
-      }
+      const result = await generateAngleVariation({ user: currentUser, projectId: selectedProjectId }, sourceImage, rotation, tilt, zoom, aspectRatio, resolution, prompt);
+      setResultImage(result.image);
+      
+      await incrementProjectImageCount(selectedProjectId, 1);
+
+      // Save to History with Session ID
+      const promptDesc = `Angle: ${rotation}°, ${tilt}°, ${zoom} ${prompt ? `| ${prompt}` : ''}`;
+      const newRecord: GeneratedImage = {
+          id: crypto.randomUUID(),
+          image: result.image,
+          prompt: promptDesc,
+          systemInstruction: activeSessionId, // Storing Session ID here
+          timestamp: Date.now(),
+          projectId: selectedProjectId,
+          projectName: ANGLES_WORKSPACE,
+          modelText: result.text,
+          userId: currentUser.id
+      };
+      
+      await saveImageToHistory(newRecord);
+      
+      history.reload();
     } catch (err: any) {
       console.error(err);
       setError(err.message || "Generation failed.");
@@ -209,13 +184,17 @@ export const AnglesView: React.FC<AnglesViewProps> = ({ initialSourceImage, onCo
   const handleDeleteHistoryItem = async (e: React.MouseEvent, id: string) => {
       e.stopPropagation();
       if (window.confirm("Delete this image?")) {
-          await deleteImageFromHistory(id);
-          await loadData();
+          try {
+              await deleteImageFromHistory(id, currentUser);
+          } catch (err: any) {
+              setError(err.message || "Delete failed.");
+          }
+          history.reload();
       }
   };
 
   const handleSelectHistoryItem = (img: GeneratedImage) => {
-      setResultImage(img.url);
+      setResultImage(img.image);
   };
 
   // --- Cube Logic ---
@@ -273,7 +252,7 @@ export const AnglesView: React.FC<AnglesViewProps> = ({ initialSourceImage, onCo
             </div>
             
             <div className="flex-1 overflow-y-auto p-3 space-y-4">
-                {sessionGroups.length === 0 && (
+                {sessionGroups.length === 0 && !history.loading && (
                     <div className="flex flex-col items-center justify-center h-40 text-zinc-600 text-xs">
                         <Clock className="w-6 h-6 mb-2 opacity-20" />
                         <p>No history yet</p>
@@ -293,10 +272,10 @@ export const AnglesView: React.FC<AnglesViewProps> = ({ initialSourceImage, onCo
                                     onClick={() => handleSelectHistoryItem(item)}
                                     className={`
                                         group relative aspect-square bg-zinc-900 rounded-md overflow-hidden border cursor-pointer transition-all
-                                        ${resultImage === item.url ? 'border-orange-500 ring-1 ring-orange-500' : 'border-zinc-800 hover:border-orange-500/50'}
+                                        ${resultImage === item.image ? 'border-orange-500 ring-1 ring-orange-500' : 'border-zinc-800 hover:border-orange-500/50'}
                                     `}
                                 >
-                                    <img src={item.url} alt="H" className="w-full h-full object-cover" />
+                                    <StoredImage image={item.image} thumbnail alt="H" className="w-full h-full object-cover" />
                                     <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity">
                                         <button 
                                             onClick={(e) => handleDeleteHistoryItem(e, item.id)}
@@ -310,6 +289,8 @@ export const AnglesView: React.FC<AnglesViewProps> = ({ initialSourceImage, onCo
                         </div>
                     </div>
                 ))}
+
+                {history.hasMore && <LoadMoreSentinel onVisible={history.loadMore} loading={history.loading} />}
             </div>
         </div>
       </div>
@@ -345,7 +326,7 @@ export const AnglesView: React.FC<AnglesViewProps> = ({ initialSourceImage, onCo
                  <div className="mb-6 flex flex-col items-center">
                     <p className="text-xs font-bold text-zinc-500 uppercase tracking-wide mb-2">Source</p>
                      <div className="w-20 h-20 rounded-lg overflow-hidden border border-zinc-700 bg-black">
-                         <img src={URL.createObjectURL(sourceImage)} className="w-full h-full object-contain opacity-80" alt="Source" />
+                         <BlobImage blob={sourceImage} className="w-full h-full object-contain opacity-80" alt="Source" />
                      </div>
                  </div>
                  
@@ -487,19 +468,28 @@ export const AnglesView: React.FC<AnglesViewProps> = ({ initialSourceImage, onCo
           <div className="flex justify-between items-center mb-4">
                <h3 className="font-bold text-zinc-200 flex items-center gap-2"><Layout className="w-5 h-5 text-zinc-500" /> Result</h3>
                {resultImage && (
-                    <a 
-                        href={resultImage} 
-                        download="angle-variation.png"
-                        className="text-xs flex items-center gap-2 text-zinc-300 hover:text-white transition-colors bg-zinc-800 px-3 py-1.5 rounded-lg border border-zinc-700"
-                    >
-                        <Download className="w-4 h-4" /> Download
-                    </a>
+                    <div className="flex items-center gap-2">
+                        {onJumpToEdit && (
+                            <button 
+                                onClick={() => onJumpToEdit(resultImage)}
+                                className="text-xs flex items-center gap-2 text-zinc-300 hover:text-blue-400 transition-colors bg-zinc-800 px-3 py-1.5 rounded-lg border border-zinc-700"
+                            >
+                                <Wand2 className="w-4 h-4" /> Edit
+                            </button>
+                        )}
+                        <button 
+                            onClick={() => downloadImage(resultImage, "angle-variation.png")}
+                            className="text-xs flex items-center gap-2 text-zinc-300 hover:text-white transition-colors bg-zinc-800 px-3 py-1.5 rounded-lg border border-zinc-700"
+                        >
+                            <Download className="w-4 h-4" /> Download
+                        </button>
+                    </div>
                )}
           </div>
           
           <div className="flex-1 flex items-center justify-center bg-black/40 rounded-xl border-2 border-dashed border-zinc-800/50 relative overflow-hidden">
                {resultImage ? (
-                   <img src={resultImage} alt="Generated Angle" className="w-full h-full object-contain" />
+                   <StoredImage image={resultImage} alt="Generated Angle" className="w-full h-full object-contain" />
                ) : (
                    <div className="text-center text-zinc-600">
                        <Box className="w-16 h-16 mx-auto mb-4 opacity-10" />
@@ -1,320 +1,225 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { editImage } from '../services/gemini';
-import { addConsumedCredits, PRICE_PER_IMAGE_FLASH, formatCurrency } from '../services/credits';
-import { Loader2, Upload, Eraser, Download, X, Box, Brush, ZoomIn, ZoomOut, RotateCcw, ImagePlus, Eye, EyeOff, Sparkles, Hand, Palette, MousePointer2, Layers } from 'lucide-react';
+import { editImage, dataUrlToFile, fileToInlineImage } from '../services/gemini';
+import { AspectRatio, ChatMessage, ImageOutput, Project, Resolution, Session, User } from '../types';
+import { PRICE_PER_IMAGE_FLASH, formatCurrency } from '../services/credits';
+import { getProjects, saveImageToHistory, appendSessionImages, incrementProjectImageCount, loadImageDataUrl } from '../services/db';
+import { createVersion, EditVersion, flattenVersionTree } from '../services/editHistory';
+import { MaskCanvas, MaskShortcuts, MaskToolbar, useMaskEditor } from './MaskCanvas';
+import { BlobImage } from './StoredImage';
+import { Loader2, Upload, Download, X, Box, ZoomIn, ZoomOut, RotateCcw, ImagePlus, Columns2, CornerDownRight, Sparkles, Folder, ChevronDown } from 'lucide-react';
+
+type ImageFormat = Pick<Session, 'aspectRatio' | 'resolution'>;
+
+const DEFAULT_FORMAT: ImageFormat = { aspectRatio: AspectRatio.SQUARE, resolution: Resolution.RES_1K };
+
+const ratioOf = (aspectRatio: AspectRatio): number => {
+    const [width, height] = aspectRatio.split(':').map(Number);
+    return width / height;
+};
+
+/**
+ * Closest aspect ratio and resolution tier of an image, recorded on the session its edits are saved in
+ */
+const getImageFormat = (src: string): Promise<ImageFormat> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const ratio = img.naturalWidth / img.naturalHeight;
+            const distance = (aspectRatio: AspectRatio) => Math.abs(Math.log(ratioOf(aspectRatio) / ratio));
+            const aspectRatio = Object.values(AspectRatio).reduce((best, candidate) => distance(candidate) < distance(best) ? candidate : best);
+            const longSide = Math.max(img.naturalWidth, img.naturalHeight);
+            const resolution = longSide >= 3072 ? Resolution.RES_4K : longSide >= 1536 ? Resolution.RES_2K : Resolution.RES_1K;
+            resolve({ aspectRatio, resolution });
+        };
+        img.onerror = () => reject(new Error('Could not load image'));
+        img.src = src;
+    });
+};
 
 interface EditViewProps {
+    currentUser: User;
+    initialSourceImage?: string | null;
+    onConsumeInitialSource?: () => void;
     onJumpToAngles?: (imageUrl: string) => void;
+    onProjectChange?: (projectId: string) => void;
 }
 
-interface Rect {
-    x: number;
-    y: number;
-    w: number;
-    h: number;
-}
-
-type Tool = 'select' | 'brush' | 'eraser' | 'pan';
-
-// Helper for rectangle subtraction (Mask logic)
-function subtractRect(r1: Rect, r2: Rect): Rect[] {
-    const x1 = Math.max(r1.x, r2.x);
-    const y1 = Math.max(r1.y, r2.y);
-    const x2 = Math.min(r1.x + r1.w, r2.x + r2.w);
-    const y2 = Math.min(r1.y + r1.h, r2.y + r2.h);
-
-    if (x1 >= x2 || y1 >= y2) {
-        return [r1];
-    }
-
-    const res: Rect[] = [];
-    if (r1.y < y1) res.push({ x: r1.x, y: r1.y, w: r1.w, h: y1 - r1.y });
-    if (r1.y + r1.h > y2) res.push({ x: r1.x, y: y2, w: r1.w, h: (r1.y + r1.h) - y2 });
-    if (r1.x < x1) res.push({ x: r1.x, y: y1, w: x1 - r1.x, h: y2 - y1 });
-    if (r1.x + r1.w > x2) res.push({ x: x2, y: y1, w: (r1.x + r1.w) - x2, h: y2 - y1 });
-
-    return res;
-}
-
-export const EditView: React.FC<EditViewProps> = ({ onJumpToAngles }) => {
-  // Image State
-  const [sourceImage, setSourceImage] = useState<File | null>(null);
-  const [resultImage, setResultImage] = useState<string | null>(null);
+export const EditView: React.FC<EditViewProps> = ({ currentUser, initialSourceImage, onConsumeInitialSource, onJumpToAngles, onProjectChange }) => {
+  // Image State: the source and every edit result, as a tree (the shown version is tracked by maskEditor)
+  const [versions, setVersions] = useState<EditVersion[]>([]);
   const [refImage, setRefImage] = useState<File | null>(null);
+
+  // Data State
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [selectedProjectId, setSelectedProjectId] = useState<string>('');
+  // Edits of the current source image are saved as a session (visible in Generate), in the source's format
+  const editSessionIdRef = useRef(crypto.randomUUID());
+  const sourceFormatRef = useRef<ImageFormat>(DEFAULT_FORMAT);
   
   // UI State
   const [prompt, setPrompt] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [showOriginal, setShowOriginal] = useState(false);
+  // Version shown left of the before/after slider (null = slider off)
+  const [compareVersionId, setCompareVersionId] = useState<string | null>(null);
   const [isMaskVisible, setIsMaskVisible] = useState(true);
   
-  // Canvas / Tool State
-  const [scale, setScale] = useState(1);
-  const [activeTool, setActiveTool] = useState<Tool>('select');
-  const [brushSize, setBrushSize] = useState(30);
-  const [brushColor, setBrushColor] = useState('#a855f7'); // Default Purple
-  const [isDrawing, setIsDrawing] = useState(false);
-
-  // Selection State
-  const [selections, setSelections] = useState<Rect[]>([]);
-  const [currentSelection, setCurrentSelection] = useState<Rect | null>(null);
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
-  const [isAltPressed, setIsAltPressed] = useState(false);
-  const [isShiftPressed, setIsShiftPressed] = useState(false);
-  
+  // Mask / Tool State
+  const maskEditor = useMaskEditor();
+
   // Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const containerRef = useRef<HTMLDivElement>(null);
-  const imageRef = useRef<HTMLImageElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const cursorRef = useRef<HTMLDivElement>(null);
-  const lastMousePos = useRef({ x: 0, y: 0 });
 
-  // Init Canvas on Image Load
   useEffect(() => {
-    if (sourceImage && imageRef.current && canvasRef.current) {
-        // Reset canvas when source changes
-        canvasRef.current.width = imageRef.current.naturalWidth;
-        canvasRef.current.height = imageRef.current.naturalHeight;
-        const ctx = canvasRef.current.getContext('2d');
-        if (ctx) ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-        
-        // Reset Selections
-        setSelections([]);
-        setResultImage(null);
-    }
-  }, [sourceImage]);
+    const loadProjects = async () => {
+        const projList = await getProjects(currentUser);
+        setProjects(projList);
+        if (projList.length > 0) setSelectedProjectId(projList[0].id);
+    };
+    loadProjects();
+  }, [currentUser]);
 
-  // Keyboard Listeners
+  // The nav budget widget follows the selected project
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-        if (e.repeat) return;
-        if (e.key === 'Alt') setIsAltPressed(true);
-        if (e.key === 'Shift') setIsShiftPressed(true);
-    };
-    const handleKeyUp = (e: KeyboardEvent) => {
-        if (e.key === 'Alt') setIsAltPressed(false);
-        if (e.key === 'Shift') setIsShiftPressed(false);
-    };
+    if (selectedProjectId) onProjectChange?.(selectedProjectId);
+  }, [selectedProjectId, onProjectChange]);
 
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
-    return () => {
-        window.removeEventListener('keydown', handleKeyDown);
-        window.removeEventListener('keyup', handleKeyUp);
-    };
-  }, []);
-
-  const handleImageLoad = () => {
-      if (imageRef.current && canvasRef.current) {
-          canvasRef.current.width = imageRef.current.naturalWidth;
-          canvasRef.current.height = imageRef.current.naturalHeight;
-          const ctx = canvasRef.current.getContext('2d');
-          if (ctx) ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-      }
+  // Handle incoming image from other tabs (Generate, History, Angles)
+  useEffect(() => {
+    if (initialSourceImage && onConsumeInitialSource) {
+        const loadInitialSource = async () => {
+            try {
+                await startEditing(dataUrlToFile(await loadImageDataUrl(initialSourceImage), "source_edit.png"));
+            } catch (e) {
+                console.error("Failed to convert initial image", e);
+            }
+        };
+        loadInitialSource();
+        onConsumeInitialSource();
+    }
+  }, [initialSourceImage, onConsumeInitialSource]);
+
+  const currentVersion = versions.find(v => v.id === maskEditor.versionId) || null;
+  const parentVersion = currentVersion?.parentId ? versions.find(v => v.id === currentVersion.parentId) || null : null;
+  const compareVersion = compareVersionId && compareVersionId !== currentVersion?.id ? versions.find(v => v.id === compareVersionId) || null : null;
+  // Anything but the source itself can be downloaded or sent on
+  const resultImage = parentVersion ? currentVersion!.image : null;
+
+  // A new source image starts a new edit session
+  const startEditing = async (file: File | null) => {
+    editSessionIdRef.current = crypto.randomUUID();
+    setError(null);
+    setCompareVersionId(null);
+    if (!file) {
+        setVersions([]);
+        maskEditor.reset();
+        return;
+    }
+    const { data, mimeType } = await fileToInlineImage(file);
+    const root = createVersion(`data:${mimeType};base64,${data}`, null);
+    setVersions([root]);
+    maskEditor.reset(root.id);
+    sourceFormatRef.current = await getImageFormat(root.image).catch(() => DEFAULT_FORMAT);
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files?.[0]) {
-        setSourceImage(e.target.files[0]);
-        setResultImage(null);
-        setSelections([]);
+        startEditing(e.target.files[0]);
     }
   };
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     if (e.dataTransfer.files?.[0]?.type.startsWith('image/')) {
-        setSourceImage(e.dataTransfer.files[0]);
-        setResultImage(null);
-        setSelections([]);
-    }
-  };
-
-  // --- Canvas Logic ---
-
-  const getPointerPos = (e: React.MouseEvent) => {
-    if (!containerRef.current || !imageRef.current) return { x: 0, y: 0, visualX: 0, visualY: 0 };
-    
-    const rect = containerRef.current.getBoundingClientRect();
-    const visualX = (e.clientX - rect.left) / scale;
-    const visualY = (e.clientY - rect.top) / scale;
-
-    const displayedWidth = imageRef.current.width;
-    const displayedHeight = imageRef.current.height;
-    
-    if (displayedWidth === 0 || displayedHeight === 0) return { x: 0, y: 0, visualX, visualY };
-
-    const scaleX = imageRef.current.naturalWidth / displayedWidth;
-    const scaleY = imageRef.current.naturalHeight / displayedHeight;
-
-    return { 
-        x: visualX * scaleX, 
-        y: visualY * scaleY,
-        visualX,
-        visualY 
-    };
-  };
-
-  const handleMouseDown = (e: React.MouseEvent) => {
-    if (!sourceImage || activeTool === 'pan') return;
-    setIsDrawing(true);
-    const { x, y } = getPointerPos(e);
-    lastMousePos.current = { x, y };
-    setDragStart({ x, y });
-
-    if (activeTool === 'select') {
-        if (!isShiftPressed && !isAltPressed) {
-            setSelections([]);
-        }
-        setCurrentSelection({ x, y, w: 0, h: 0 });
-    } else {
-        draw(x, y, x, y);
+        startEditing(e.dataTransfer.files[0]);
     }
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!containerRef.current) return;
-    
-    // Update cursor
-    const { visualX, visualY, x, y } = getPointerPos(e);
-    if (cursorRef.current) {
-        cursorRef.current.style.left = `${visualX}px`;
-        cursorRef.current.style.top = `${visualY}px`;
-    }
-
-    if (!isDrawing || activeTool === 'pan') return;
-
-    if (activeTool === 'select') {
-        const minX = Math.min(dragStart.x, x);
-        const minY = Math.min(dragStart.y, y);
-        const w = Math.abs(x - dragStart.x);
-        const h = Math.abs(y - dragStart.y);
-        setCurrentSelection({ x: minX, y: minY, w, h });
-    } else {
-        draw(x, y, lastMousePos.current.x, lastMousePos.current.y);
-        lastMousePos.current = { x, y };
-    }
-  };
+  // --- Versions ---
 
-  const handleMouseUp = () => {
-    if (isDrawing && activeTool === 'select' && currentSelection) {
-         if (currentSelection.w > 5 && currentSelection.h > 5) {
-            if (isAltPressed) {
-                 let resultList: Rect[] = [];
-                 for (const existing of selections) {
-                    resultList.push(...subtractRect(existing, currentSelection));
-                 }
-                 setSelections(resultList);
-            } else {
-                 setSelections(prev => [...prev, currentSelection!]);
-            }
-         }
+  // Slider starts on the version the current one was made from
+  const toggleCompare = () => {
+    if (compareVersionId) {
+        setCompareVersionId(null);
+        return;
     }
-    setIsDrawing(false);
-    setCurrentSelection(null);
+    const other = parentVersion || versions.find(v => v.id !== currentVersion?.id);
+    setCompareVersionId(other ? other.id : null);
   };
 
-  const draw = (x: number, y: number, prevX: number, prevY: number) => {
-    const ctx = canvasRef.current?.getContext('2d');
-    if (!ctx) return;
-    
-    const scaleFactor = imageRef.current ? (imageRef.current.naturalWidth / imageRef.current.width) : 1;
-    const actualBrushSize = brushSize * scaleFactor;
-
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-    ctx.lineWidth = actualBrushSize;
-    
-    if (activeTool === 'brush') {
-        ctx.globalCompositeOperation = 'source-over';
-        ctx.strokeStyle = brushColor;
-        ctx.globalAlpha = 0.6;
-    } else {
-        ctx.globalCompositeOperation = 'destination-out';
-        ctx.globalAlpha = 1.0;
+  // While comparing a click picks the "before" version, Shift+click the "after" one
+  const handleVersionClick = (version: EditVersion, shiftKey: boolean) => {
+    if (compareVersionId && !shiftKey) {
+        if (version.id !== currentVersion?.id) setCompareVersionId(version.id);
+        return;
     }
-
-    ctx.beginPath();
-    ctx.moveTo(prevX, prevY);
-    ctx.lineTo(x, y);
-    ctx.stroke();
+    if (version.id !== currentVersion?.id) maskEditor.selectVersion(version.id);
   };
 
-  const clearCanvas = () => {
-    const ctx = canvasRef.current?.getContext('2d');
-    if (ctx && canvasRef.current) ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-    setSelections([]);
+  // The result becomes the source of the next edit: fresh mask and instruction
+  const continueFromResult = () => {
+    maskEditor.clear();
+    setPrompt('');
+    setCompareVersionId(null);
   };
 
   // --- Generation Logic ---
 
-  const getMaskBoundingBox = (): Rect | null => {
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (!canvas || !ctx) return null;
-
-    const w = canvas.width;
-    const h = canvas.height;
-    const imageData = ctx.getImageData(0, 0, w, h).data;
-
-    let minX = w, minY = h, maxX = 0, maxY = 0;
-    let found = false;
-
-    for (let y = 0; y < h; y += 5) {
-        for (let x = 0; x < w; x += 5) {
-            const alpha = imageData[(y * w + x) * 4 + 3];
-            if (alpha > 0) {
-                if (x < minX) minX = x;
-                if (x > maxX) maxX = x;
-                if (y < minY) minY = y;
-                if (y > maxY) maxY = y;
-                found = true;
-            }
-        }
-    }
-
-    if (!found) return null;
-    return { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
+  // Save the result like the other tools: history, project count and session
+  const saveEditResult = async (result: ImageOutput) => {
+    await incrementProjectImageCount(selectedProjectId, 1);
+    await saveImageToHistory({
+        id: crypto.randomUUID(),
+        image: result.image,
+        prompt,
+        timestamp: Date.now(),
+        projectId: selectedProjectId,
+        modelText: result.text,
+        userId: currentUser.id
+    });
+
+    const userMsg: ChatMessage = { id: crypto.randomUUID(), role: 'user', text: prompt };
+    const modelMsg: ChatMessage = { id: crypto.randomUUID(), role: 'model', text: result.text, image: result.image };
+    // Appended in the stored session, created by the first edit: edits finishing together each keep their messages
+    await appendSessionImages({
+        id: editSessionIdRef.current,
+        name: `Edit: ${prompt.slice(0, 40)}`,
+        timestamp: Date.now(),
+        prompt,
+        systemInstruction: '',
+        generatedImages: [versions[0].image], // The edited source
+        chatMessages: [],
+        ...sourceFormatRef.current,
+        projectId: selectedProjectId,
+        userId: currentUser.id
+    }, [], [userMsg, modelMsg]);
   };
 
   const handleEdit = async () => {
-    if (!sourceImage || !prompt || !imageRef.current) return;
+    if (!currentVersion || !prompt) return;
+    if (!selectedProjectId) {
+        setError("Please select a project first.");
+        return;
+    }
     setLoading(true);
     setError(null);
 
     try {
-        let finalPrompt = prompt;
-        
-        const allZones = [...selections];
-        const drawnRect = getMaskBoundingBox();
-        if (drawnRect) allZones.push(drawnRect);
-        
-        if (allZones.length > 0) {
-            const naturalW = imageRef.current.naturalWidth;
-            const naturalH = imageRef.current.naturalHeight;
-            let coordString = "";
-            
-            allZones.forEach(r => {
-                const y1 = Math.floor((r.y / naturalH) * 1000);
-                const x1 = Math.floor((r.x / naturalW) * 1000);
-                const y2 = Math.floor(((r.y + r.h) / naturalH) * 1000);
-                const x2 = Math.floor(((r.x + r.w) / naturalW) * 1000);
-                coordString += ` [EDIT_ZONE: ${y1}, ${x1}, ${y2}, ${x2}]`;
-            });
-            finalPrompt += coordString;
-        } else {
+        const mask = maskEditor.exportMask();
+        if (!mask) {
              setError("Please select or paint an area to edit.");
              setLoading(false);
              return;
         }
 
-        const result = await editImage(finalPrompt, sourceImage, refImage || undefined);
-        if (!result) throw new Error("Could not edit image.");
-        
-        addConsumedCredits(PRICE_PER_IMAGE_FLASH);
-        setResultImage(result);
+        // Edits apply to the version on screen: editing an earlier version starts a branch
+        const base = currentVersion;
+        const result = await editImage({ user: currentUser, projectId: selectedProjectId }, prompt, dataUrlToFile(base.image, "edit_source.png"), refImage || undefined, mask);
+
+        const version = createVersion(result.image, base.id, prompt);
+        setVersions(prev => [...prev, version]);
+        maskEditor.selectVersion(version.id);
+        await saveEditResult(result);
         
         // IMPORTANT: We do NOT clear canvas here so the mask remains visible for the user.
     } catch (err: any) {
@@ -324,38 +229,9 @@ export const EditView: React.FC<EditViewProps> = ({ onJumpToAngles }) => {
     }
   };
 
-  // Helper to render selection rects in Visual Space
-  const renderRect = (r: Rect, idx?: number, isCurrent = false) => {
-    if (!imageRef.current) return null;
-    const displayedWidth = imageRef.current.width;
-    const displayedHeight = imageRef.current.height;
-    if (displayedWidth === 0 || displayedHeight === 0) return null;
-
-    const scaleX = imageRef.current.naturalWidth / displayedWidth;
-    const scaleY = imageRef.current.naturalHeight / displayedHeight;
-    
-    const style: React.CSSProperties = {
-        left: r.x / scaleX,
-        top: r.y / scaleY,
-        width: r.w / scaleX,
-        height: r.h / scaleY
-    };
-    
-    // Hide selections if mask is hidden
-    if (!isMaskVisible) return null;
-    
-    return (
-        <div 
-            key={idx !== undefined ? idx : 'curr'}
-            className={`absolute border-2 pointer-events-none ${isCurrent ? (isAltPressed ? 'border-red-500 bg-red-500/20' : 'border-purple-400 bg-purple-500/10') : 'border-purple-500 bg-purple-500/20'}`}
-            style={style}
-        />
-    );
-  };
-
   // --- Render ---
 
-  if (!sourceImage) {
+  if (!currentVersion) {
       return (
         <div 
           onDragOver={(e) => e.preventDefault()}
@@ -379,19 +255,28 @@ export const EditView: React.FC<EditViewProps> = ({ onJumpToAngles }) => {
         {/* Top Toolbar */}
         <div className="h-16 bg-zinc-900 border border-zinc-800 rounded-xl px-4 flex items-center justify-between shrink-0">
             <div className="flex items-center gap-4">
-                <button onClick={() => setSourceImage(null)} className="flex items-center gap-2 text-zinc-400 hover:text-white transition-colors text-sm font-medium">
+                <button onClick={() => startEditing(null)} className="flex items-center gap-2 text-zinc-400 hover:text-white transition-colors text-sm font-medium">
                     <RotateCcw className="w-4 h-4" /> Start Over
                 </button>
                 <div className="h-6 w-px bg-zinc-800"></div>
+                {versions.length > 1 && (
+                    <button 
+                        onClick={toggleCompare}
+                        className={`flex items-center gap-2 px-3 py-1.5 rounded-lg select-none transition-colors ${compareVersionId ? 'bg-blue-600 text-white' : 'bg-zinc-800 text-zinc-300 hover:text-white'}`}
+                        title="Before/after slider between two versions"
+                    >
+                        <Columns2 className="w-4 h-4" />
+                        Compare
+                    </button>
+                )}
                 {resultImage && (
                     <button 
-                        onMouseDown={() => setShowOriginal(true)}
-                        onMouseUp={() => setShowOriginal(false)}
-                        onMouseLeave={() => setShowOriginal(false)}
-                        className="flex items-center gap-2 px-3 py-1.5 bg-zinc-800 rounded-lg text-zinc-300 hover:text-white select-none active:bg-zinc-700"
+                        onClick={continueFromResult}
+                        className="flex items-center gap-2 px-3 py-1.5 bg-zinc-800 rounded-lg text-zinc-300 hover:text-white select-none"
+                        title="Keep editing this result with a new mask"
                     >
-                        {showOriginal ? <Eye className="w-4 h-4 text-blue-400" /> : <EyeOff className="w-4 h-4" />}
-                        Hold to Compare
+                        <CornerDownRight className="w-4 h-4" />
+                        Continue from Result
                     </button>
                 )}
             </div>
@@ -415,147 +300,52 @@ export const EditView: React.FC<EditViewProps> = ({ onJumpToAngles }) => {
         <div className="flex-1 flex gap-4 overflow-hidden">
             
             {/* Left: Tools Sidebar */}
-            <div className="w-16 bg-zinc-900 border border-zinc-800 rounded-xl flex flex-col items-center py-4 gap-4 shrink-0">
-                <button 
-                    onClick={() => setActiveTool('select')}
-                    className={`p-3 rounded-xl transition-all ${activeTool === 'select' ? 'bg-purple-600 text-white shadow-lg' : 'text-zinc-500 hover:bg-zinc-800'}`}
-                    title="Selection Box (Shift to add, Alt to subtract)"
-                >
-                    <MousePointer2 className="w-5 h-5" />
-                </button>
-                <button 
-                    onClick={() => setActiveTool('brush')}
-                    className={`p-3 rounded-xl transition-all ${activeTool === 'brush' ? 'bg-purple-600 text-white shadow-lg' : 'text-zinc-500 hover:bg-zinc-800'}`}
-                    title="Mask Brush"
-                >
-                    <Brush className="w-5 h-5" />
-                </button>
-                <button 
-                    onClick={() => setActiveTool('eraser')}
-                    className={`p-3 rounded-xl transition-all ${activeTool === 'eraser' ? 'bg-purple-600 text-white shadow-lg' : 'text-zinc-500 hover:bg-zinc-800'}`}
-                    title="Mask Eraser"
-                >
-                    <Eraser className="w-5 h-5" />
-                </button>
-                <button 
-                    onClick={() => setActiveTool('pan')}
-                    className={`p-3 rounded-xl transition-all ${activeTool === 'pan' ? 'bg-blue-600 text-white shadow-lg' : 'text-zinc-500 hover:bg-zinc-800'}`}
-                    title="Pan Mode"
-                >
-                    <Hand className="w-5 h-5" />
-                </button>
-                
-                <div className="h-px w-8 bg-zinc-800 my-2"></div>
-                
-                {/* Mask Visibility Toggle */}
-                <button
-                    onClick={() => setIsMaskVisible(!isMaskVisible)}
-                    className={`p-3 rounded-xl transition-all ${isMaskVisible ? 'text-purple-400 bg-purple-500/10' : 'text-zinc-600 hover:text-zinc-400'}`}
-                    title={isMaskVisible ? "Hide Mask" : "Show Mask"}
-                >
-                    <Layers className="w-5 h-5" />
-                </button>
-                
-                <div className="h-px w-8 bg-zinc-800 my-2"></div>
-
-                {/* Color Picker (Only for Brush) */}
-                {activeTool === 'brush' && (
-                    <div className="flex flex-col items-center gap-2 animate-in fade-in">
-                        <div className="relative group">
-                            <div 
-                                className="w-8 h-8 rounded-full border border-zinc-700 cursor-pointer flex items-center justify-center shadow-sm" 
-                                style={{ backgroundColor: brushColor }}
-                                title="Change Color"
-                            >
-                                <Palette className="w-4 h-4 text-white mix-blend-difference" />
-                            </div>
-                            <input 
-                                type="color" 
-                                value={brushColor}
-                                onChange={e => setBrushColor(e.target.value)}
-                                className="absolute inset-0 opacity-0 cursor-pointer"
-                            />
-                        </div>
-                    </div>
-                )}
-                
-                {/* Brush Size */}
-                <div className="flex flex-col items-center gap-2 h-32">
-                     <span className="text-[10px] text-zinc-500 font-bold">{brushSize}</span>
-                     <input 
-                        type="range" 
-                        min="5" 
-                        max="100" 
-                        value={brushSize} 
-                        onChange={e => setBrushSize(Number(e.target.value))}
-                        className="h-full w-1 bg-zinc-700 rounded-full appearance-none cursor-pointer vertical-slider"
-                        style={{ writingMode: 'vertical-lr', direction: 'rtl' }}
-                     />
-                </div>
-
-                <div className="mt-auto">
-                    <button onClick={clearCanvas} className="p-2 text-red-400 hover:bg-red-900/20 rounded-lg" title="Clear Mask">
-                        <X className="w-5 h-5" />
-                    </button>
-                </div>
-            </div>
+            <MaskToolbar
+                editor={maskEditor}
+                className="bg-zinc-900 border border-zinc-800 rounded-xl"
+                maskVisible={isMaskVisible}
+                onToggleMask={() => setIsMaskVisible(!isMaskVisible)}
+            />
 
             {/* Center: Canvas Workspace */}
             <div className="flex-1 bg-black/40 border border-zinc-800 rounded-xl relative overflow-hidden flex items-center justify-center p-8">
-                <div 
-                    className="relative shadow-2xl transition-transform duration-100 ease-out"
-                    style={{ transform: `scale(${scale})` }}
-                >
-                     {/* Image Container with inline-block to tightly hug content */}
-                    <div ref={containerRef} className={`relative inline-block select-none ${activeTool === 'pan' ? 'cursor-grab active:cursor-grabbing' : (activeTool === 'select' ? 'cursor-crosshair' : 'cursor-none')}`}>
-                        {/* 1. Base Image (or Result if active and not comparing) */}
-                        <img 
-                            ref={imageRef}
-                            src={resultImage && !showOriginal ? resultImage : URL.createObjectURL(sourceImage)}
-                            alt="Edit Target"
-                            className="max-w-full max-h-[70vh] object-contain pointer-events-none block"
-                            onMouseDown={(e) => e.preventDefault()}
-                            onLoad={handleImageLoad}
-                        />
-                        
-                        {/* 2. Drawing Canvas */}
-                        <canvas 
-                            ref={canvasRef}
-                            className={`absolute inset-0 w-full h-full pointer-events-none ${isMaskVisible ? 'opacity-100' : 'opacity-0'}`}
-                            onMouseDown={(e) => e.preventDefault()}
-                        />
-
-                        {/* 3. Rectangular Selections Overlay */}
-                        {(resultImage && !showOriginal) ? null : selections.map((sel, idx) => renderRect(sel, idx))}
-                        
-                        {/* 4. Current Drag Rect */}
-                        {(resultImage && !showOriginal) ? null : (currentSelection && activeTool === 'select' && renderRect(currentSelection, undefined, true))}
-
-                        {/* 5. Custom Cursor */}
-                        {(activeTool === 'brush' || activeTool === 'eraser') && (
-                             <div 
-                                ref={cursorRef}
-                                className="absolute pointer-events-none border border-white rounded-full -translate-x-1/2 -translate-y-1/2 z-50 mix-blend-difference"
-                                style={{ width: brushSize, height: brushSize }}
-                             />
-                        )}
-                        
-                        {/* Mouse Capture Layer */}
-                        <div 
-                            className="absolute inset-0 z-10"
-                            onMouseDown={handleMouseDown}
-                            onMouseMove={handleMouseMove}
-                            onMouseUp={handleMouseUp}
-                            onMouseLeave={handleMouseUp}
-                        />
+                <MaskCanvas
+                    editor={maskEditor}
+                    imageUrl={currentVersion.image}
+                    alt="Edit Target"
+                    imageClassName="max-w-full max-h-[70vh]"
+                    maskVisible={isMaskVisible}
+                    compareImageUrl={compareVersion?.image}
+                />
+
+                {/* Version Strip */}
+                {versions.length > 1 && (
+                    <div className="absolute bottom-6 left-6 right-48 flex gap-2 overflow-x-auto p-1.5 bg-zinc-900/90 border border-zinc-700 rounded-lg shadow-xl">
+                        {flattenVersionTree(versions).map(({ version }) => {
+                            const number = versions.indexOf(version) + 1;
+                            const parentNumber = versions.findIndex(v => v.id === version.parentId) + 1;
+                            const isCurrent = version.id === currentVersion.id;
+                            const isCompared = version.id === compareVersion?.id;
+                            return (
+                                <button
+                                    key={version.id}
+                                    onClick={e => handleVersionClick(version, e.shiftKey)}
+                                    className={`relative shrink-0 rounded-md overflow-hidden border-2 transition-colors ${isCurrent ? 'border-blue-500' : (isCompared ? 'border-orange-400' : 'border-transparent hover:border-zinc-500')}`}
+                                    title={version.parentId ? `v${number} (from v${parentNumber}): ${version.prompt}` : 'v1: Original'}
+                                >
+                                    <img src={version.image} className="w-12 h-12 object-cover" alt="" />
+                                    <span className="absolute bottom-0 inset-x-0 text-[9px] font-bold bg-black/70 text-zinc-200 text-center">v{number}</span>
+                                </button>
+                            );
+                        })}
                     </div>
-                </div>
+                )}
 
                 {/* Zoom Controls */}
                 <div className="absolute bottom-6 right-6 flex items-center gap-2 bg-zinc-900 border border-zinc-700 p-1.5 rounded-lg shadow-xl">
-                    <button onClick={() => setScale(s => Math.max(0.2, s - 0.2))} className="p-2 hover:bg-zinc-800 rounded text-zinc-400"><ZoomOut className="w-4 h-4" /></button>
-                    <span className="text-xs font-mono w-12 text-center text-zinc-300">{Math.round(scale * 100)}%</span>
-                    <button onClick={() => setScale(s => Math.min(3, s + 0.2))} className="p-2 hover:bg-zinc-800 rounded text-zinc-400"><ZoomIn className="w-4 h-4" /></button>
+                    <button onClick={maskEditor.zoomOut} className="p-2 hover:bg-zinc-800 rounded text-zinc-400"><ZoomOut className="w-4 h-4" /></button>
+                    <span className="text-xs font-mono w-12 text-center text-zinc-300">{Math.round(maskEditor.scale * 100)}%</span>
+                    <button onClick={maskEditor.zoomIn} className="p-2 hover:bg-zinc-800 rounded text-zinc-400"><ZoomIn className="w-4 h-4" /></button>
                 </div>
             </div>
 
@@ -567,12 +357,31 @@ export const EditView: React.FC<EditViewProps> = ({ onJumpToAngles }) => {
                 </div>
                 
                 {/* Shortcuts hint */}
-                <div className="text-[10px] text-zinc-500 bg-zinc-950 p-2 rounded border border-zinc-800 grid grid-cols-2 gap-x-2 gap-y-1">
-                    <span>Shift + Select</span> <span className="text-right text-zinc-400">Add Box</span>
-                    <span>Alt + Select</span> <span className="text-right text-zinc-400">Sub Box</span>
-                </div>
+                <MaskShortcuts />
 
                 <div className="space-y-4">
+                    {/* Project Selection */}
+                    <div className="space-y-2">
+                        <label className="text-xs font-bold text-zinc-400 uppercase flex items-center gap-1">
+                            <Folder className="w-3 h-3" /> Project
+                        </label>
+                        <div className="relative">
+                            <select
+                                value={selectedProjectId}
+                                onChange={(e) => setSelectedProjectId(e.target.value)}
+                                className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 appearance-none outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                                {projects.length === 0 && <option value="">No projects available</option>}
+                                {projects.map((proj) => (
+                                    <option key={proj.id} value={proj.id}>
+                                        {proj.name}
+                                    </option>
+                                ))}
+                            </select>
+                            <ChevronDown className="absolute right-3 top-2.5 w-4 h-4 text-zinc-500 pointer-events-none" />
+                        </div>
+                    </div>
+
                     {/* Prompt */}
                     <div className="space-y-2">
                         <label className="text-xs font-bold text-zinc-400 uppercase">Instruction</label>
@@ -590,7 +399,7 @@ export const EditView: React.FC<EditViewProps> = ({ onJumpToAngles }) => {
                         <div className="relative group">
                             {refImage ? (
                                 <div className="relative rounded-lg overflow-hidden border border-zinc-700 h-20 bg-black">
-                                    <img src={URL.createObjectURL(refImage)} className="w-full h-full object-contain opacity-70" alt="ref" />
+                                    <BlobImage blob={refImage} className="w-full h-full object-contain opacity-70" alt="ref" />
                                     <button onClick={() => setRefImage(null)} className="absolute top-1 right-1 bg-black/60 p-1 rounded-full text-zinc-300 hover:text-red-400"><X className="w-3 h-3" /></button>
                                 </div>
                             ) : (
@@ -609,7 +418,7 @@ export const EditView: React.FC<EditViewProps> = ({ onJumpToAngles }) => {
                 <div className="mt-auto pt-4 border-t border-zinc-800">
                     <button 
                         onClick={handleEdit}
-                        disabled={loading || !prompt}
+                        disabled={loading || !prompt || !selectedProjectId}
                         className="w-full py-3 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-500 hover:to-cyan-500 text-white font-bold rounded-xl shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                     >
                         {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Sparkles className="w-5 h-5" />}
@@ -1,10 +1,13 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { AspectRatio, Resolution, GeneratedImage, ChatMessage, Session, User, Project } from '../types';
-import { generateImages, refineImage } from '../services/gemini';
-import { saveImageToHistory, saveSession, getSessions, deleteSession, logActivity, getProjects, incrementProjectImageCount } from '../services/db';
-import { addConsumedCredits, PRICE_PER_IMAGE_PRO, PRICE_PER_IMAGE_4K, formatCurrency } from '../services/credits';
-import { Loader2, Plus, Trash2, Download, Image as ImageIcon, Sparkles, MessageSquare, Send, Save, X, ChevronDown, Paperclip, Frame, LayoutGrid, Folder, Pencil, Check, Box, DollarSign, Monitor, RefreshCw, Target } from 'lucide-react';
+import { AspectRatio, Resolution, GeneratedImage, ChatMessage, Session, User, Project, GenerationJob, ImageOutput } from '../types';
+import { refineImage, DEFAULT_VARIATIONS, MAX_VARIATIONS } from '../services/gemini';
+import { getSession, getSessionsPage, deleteSession, getProjects, appendSessionImages, loadImageDataUrl, SYS_INSTRUCTIONS_KEY } from '../services/db';
+import { enqueueGeneration, EVENT_JOBS_UPDATED, getJobChatMessages, getJobs, isJobActive } from '../services/jobQueue';
+import { estimateGenerationCost, formatCurrency } from '../services/credits';
+import { Loader2, Plus, Trash2, Download, Image as ImageIcon, Sparkles, MessageSquare, Send, Save, X, ChevronDown, Paperclip, Frame, LayoutGrid, Folder, Pencil, Check, Box, DollarSign, Monitor, RefreshCw, Target, Wand2, Layers } from 'lucide-react';
 import { ImageDetailModal } from './ImageDetailModal';
+import { BlobImage, downloadImage, StoredImage } from './StoredImage';
+import { LoadMoreSentinel, usePaginatedQuery } from './InfiniteScroll';
 
 interface SavedInstruction {
   id: string;
@@ -17,18 +20,25 @@ interface GenerateViewProps {
     initialImage?: string | null;
     onConsumeInitialImage?: () => void;
     onJumpToAngles?: (imageUrl: string) => void;
+    onJumpToEdit?: (imageUrl: string) => void;
+    onProjectChange?: (projectId: string) => void;
 }
 
 const ACTIVE_SESSION_KEY = 'dpr_active_session_id';
 
-export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initialImage, onConsumeInitialImage, onJumpToAngles }) => {
+export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initialImage, onConsumeInitialImage, onJumpToAngles, onJumpToEdit, onProjectChange }) => {
   // --- Global State ---
-  const [sessions, setSessions] = useState<Session[]>([]);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
   const [projects, setProjects] = useState<Project[]>([]);
 
   // --- Generation State ---
   const [selectedProjectId, setSelectedProjectId] = useState<string>('');
+
+  // Sessions of the selected project, newest first
+  const sessions = usePaginatedQuery(
+    after => selectedProjectId ? getSessionsPage(currentUser, { projectId: selectedProjectId }, after) : Promise.resolve({ items: [], next: null }),
+    [currentUser, selectedProjectId]
+  );
   const [prompt, setPrompt] = useState('');
   const [systemInstruction, setSystemInstruction] = useState('');
   const [instructionTitle, setInstructionTitle] = useState(''); 
@@ -36,12 +46,14 @@ export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initial
   
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>(AspectRatio.SQUARE);
   const [resolution, setResolution] = useState<Resolution>(Resolution.RES_1K);
+  const [variationCount, setVariationCount] = useState(DEFAULT_VARIATIONS);
   const [refImages, setRefImages] = useState<File[]>([]);
   const [generatedResults, setGeneratedResults] = useState<string[]>([]);
   
   const [activeContextImage, setActiveContextImage] = useState<string | null>(null);
-  const [activeRequests, setActiveRequests] = useState(0); 
-  const MAX_CONCURRENT = 2;
+  // Runs are queued jobs (services/jobQueue.ts): they outlive this view
+  const [jobs, setJobs] = useState<GenerationJob[]>(getJobs());
+  const currentSessionIdRef = useRef<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   // --- Chat/Refine State ---
@@ -57,7 +69,7 @@ export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initial
   // Load saved instructions and sessions on mount
   useEffect(() => {
     let loadedInstructions: SavedInstruction[] = [];
-    const saved = localStorage.getItem('gemini_sys_instructions');
+    const saved = localStorage.getItem(SYS_INSTRUCTIONS_KEY);
     if (saved) {
       try { loadedInstructions = JSON.parse(saved); } catch (e) { console.error(e); }
     }
@@ -70,7 +82,7 @@ export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initial
     
     if (!loadedInstructions.find(i => i.name === 'visages marocains')) {
         loadedInstructions.push(marocInstruction);
-        localStorage.setItem('gemini_sys_instructions', JSON.stringify(loadedInstructions));
+        localStorage.setItem(SYS_INSTRUCTIONS_KEY, JSON.stringify(loadedInstructions));
     }
     
     setSavedInstructions(loadedInstructions);
@@ -86,15 +98,15 @@ export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initial
   }, [initialImage, onConsumeInitialImage]);
 
   const loadData = async (currentInstructions?: SavedInstruction[]) => {
-    const s = await getSessions();
-    const p = await getProjects();
-    setSessions(s);
+    const p = await getProjects(currentUser);
     setProjects(p);
     
     if (p.length > 0 && !selectedProjectId) setSelectedProjectId(p[0].id);
 
     const lastSessionId = localStorage.getItem(ACTIVE_SESSION_KEY);
-    let sessionToLoad = lastSessionId ? s.find(session => session.id === lastSessionId) : s[0];
+    const sessionToLoad = lastSessionId
+        ? await getSession(currentUser, lastSessionId)
+        : (await getSessionsPage(currentUser, {}, null, 1)).items[0];
 
     if (sessionToLoad) {
         handleSelectSession(sessionToLoad);
@@ -144,49 +156,59 @@ export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initial
   const handleDeleteSession = async (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if (window.confirm("Supprimer cette session ?")) {
-        await deleteSession(id);
-        setSessions(prev => prev.filter(s => s.id !== id));
+        try {
+            await deleteSession(id, currentUser);
+        } catch (err: any) {
+            setError(err.message || "Suppression impossible.");
+            return;
+        }
+        sessions.reload();
         if (currentSessionId === id) handleNewSession();
     }
   };
 
+  /**
+   * Add chat messages to the stored session, if one is open: a job finishing meanwhile may have added images to it
+   */
+  const appendToCurrentSession = async (messages: ChatMessage[]) => {
+    if (!currentSessionId) return;
+    const session = await getSession(currentUser, currentSessionId);
+    if (!session) return;
+    await appendSessionImages(session, [], messages);
+    sessions.reload();
+  };
+
   const handleGenerate = async () => {
-    if (!prompt || !selectedProjectId || activeRequests >= MAX_CONCURRENT) return;
-    setActiveRequests(prev => prev + 1);
+    if (!prompt || !selectedProjectId) return;
     setError(null);
     
-    let sessionIdToUse = currentSessionId || crypto.randomUUID();
+    const sessionIdToUse = currentSessionId || crypto.randomUUID();
     setCurrentSessionId(sessionIdToUse);
+    localStorage.setItem(ACTIVE_SESSION_KEY, sessionIdToUse);
 
     try {
-      const results = await generateImages(prompt, systemInstruction, [...refImages], aspectRatio, resolution);
-      if (results.length === 0) {
-        setError('Prompt bloqué ou service occupé.');
-      } else {
-        setGeneratedResults(prev => [...prev, ...results]);
-        setActiveContextImage(results[results.length - 1]);
-        const cost = results.length * (resolution === Resolution.RES_4K ? PRICE_PER_IMAGE_4K : PRICE_PER_IMAGE_PRO);
-        addConsumedCredits(cost);
-        await incrementProjectImageCount(selectedProjectId, results.length);
-        const existingSession = sessions.find(s => s.id === sessionIdToUse);
-        const sessionToSave: Session = {
-            id: sessionIdToUse, 
+      // The session exists from the start, so a reload finds it while the job runs
+      if (!(await getSession(currentUser, sessionIdToUse))) {
+        await appendSessionImages({
+            id: sessionIdToUse,
             timestamp: Date.now(),
             prompt, systemInstruction,
-            generatedImages: existingSession ? [...existingSession.generatedImages, ...results] : results,
-            chatMessages: existingSession ? existingSession.chatMessages : [], 
-            aspectRatio, resolution, projectId: selectedProjectId
-        };
-        await saveSession(sessionToSave);
-        localStorage.setItem(ACTIVE_SESSION_KEY, sessionIdToUse);
-        setSessions(prev => {
-            const exists = prev.find(s => s.id === sessionToSave.id);
-            if (exists) return prev.map(s => s.id === sessionToSave.id ? sessionToSave : s);
-            return [sessionToSave, ...prev];
-        });
-        results.forEach(url => saveImageToHistory({ id: crypto.randomUUID(), url, prompt, systemInstruction, timestamp: Date.now(), projectId: selectedProjectId }));
+            generatedImages: [],
+            chatMessages: [],
+            aspectRatio, resolution, projectId: selectedProjectId,
+            userId: currentUser.id
+        }, []);
+        sessions.reload();
       }
-    } catch (err: any) { setError(err.message || "Erreur de génération."); } finally { setActiveRequests(prev => prev - 1); }
+      await enqueueGeneration(currentUser, {
+          projectId: selectedProjectId,
+          sessionId: sessionIdToUse,
+          prompt, systemInstruction,
+          referenceImages: [...refImages],
+          aspectRatio, resolution,
+          variationCount
+      });
+    } catch (err: any) { setError(err.message || "Erreur de génération."); }
   };
 
   const handleSendMessage = async () => {
@@ -201,22 +223,14 @@ export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initial
     setChatInput('');
 
     try {
-        const result = await refineImage(text, sourceImage, systemInstruction, undefined, undefined, Resolution.RES_1K);
+        const result = await refineImage({ user: currentUser, projectId: selectedProjectId }, text, await loadImageDataUrl(sourceImage), systemInstruction, undefined, undefined, Resolution.RES_1K);
         if (result) {
-            addConsumedCredits(PRICE_PER_IMAGE_PRO);
-            const modelMsg: ChatMessage = { id: (Date.now() + 1).toString(), role: 'model', image: result };
+            const modelMsg: ChatMessage = { id: (Date.now() + 1).toString(), role: 'model', text: result.text, image: result.image };
             setChatMessages(prev => [...prev, modelMsg]);
-            setActiveContextImage(result);
-            if (currentSessionId) {
-                const sess = sessions.find(s => s.id === currentSessionId);
-                if (sess) {
-                    const upSess = { ...sess, chatMessages: [...sess.chatMessages, userMsg, modelMsg] };
-                    await saveSession(upSess);
-                    setSessions(prev => prev.map(s => s.id === upSess.id ? upSess : s));
-                }
-            }
+            setActiveContextImage(result.image);
+            await appendToCurrentSession([userMsg, modelMsg]);
         }
-    } catch (err) { console.error(err); } finally { setIsRefining(false); }
+    } catch (err: any) { setError(err.message || "Erreur de retouche."); } finally { setIsRefining(false); }
   };
 
   const handleImageDoubleClick = (imageUrl: string) => {
@@ -224,6 +238,33 @@ export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initial
     setIsModalOpen(true);
   };
 
+  useEffect(() => { currentSessionIdRef.current = currentSessionId; }, [currentSessionId]);
+
+  // Results of jobs finishing while this view is open land on the board (the job already saved them)
+  useEffect(() => {
+    const handleJobUpdate = async (e: Event) => {
+        setJobs(getJobs());
+        const job = (e as CustomEvent<GenerationJob | undefined>).detail;
+        if (!job || job.sessionId !== currentSessionIdRef.current) return;
+        if (job.status === 'failed') setError(job.error || "Erreur de génération.");
+        if (job.status === 'succeeded' || (job.status === 'cancelled' && job.results.length > 0)) {
+            setGeneratedResults(prev => [...prev, ...job.results.map(result => result.image)]);
+            setChatMessages(prev => [...prev, ...getJobChatMessages(job)]);
+            setActiveContextImage(job.results[job.results.length - 1].image);
+            sessions.reload();
+        }
+    };
+    window.addEventListener(EVENT_JOBS_UPDATED, handleJobUpdate);
+    return () => window.removeEventListener(EVENT_JOBS_UPDATED, handleJobUpdate);
+  }, [currentUser]);
+
+  const sessionJobs = jobs.filter(job => job.sessionId === currentSessionId && isJobActive(job));
+
+  // The nav budget widget follows the selected project
+  useEffect(() => {
+    if (selectedProjectId) onProjectChange?.(selectedProjectId);
+  }, [selectedProjectId, onProjectChange]);
+
   useEffect(() => { chatEndRef.current?.scrollIntoView({ behavior: 'smooth' }); }, [chatMessages]);
 
   return (
@@ -239,6 +280,7 @@ export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initial
                     onChange={(e) => { setSelectedProjectId(e.target.value); handleNewSession(); }}
                     className="bg-transparent text-sm text-zinc-200 outline-none font-medium min-w-[140px]"
                 >
+                    {projects.length === 0 && <option value="">No projects available</option>}
                     {projects.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
                 </select>
             </div>
@@ -270,7 +312,7 @@ export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initial
                         const name = window.prompt("Nom du preset :") || "Sans titre";
                         const updated = [...savedInstructions, { id: Date.now().toString(), name, content: systemInstruction }];
                         setSavedInstructions(updated);
-                        localStorage.setItem('gemini_sys_instructions', JSON.stringify(updated));
+                        localStorage.setItem(SYS_INSTRUCTIONS_KEY, JSON.stringify(updated));
                     }}
                     className="p-1.5 hover:bg-zinc-800 rounded-lg transition-colors group"
                 >
@@ -292,14 +334,14 @@ export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initial
             </button>
             
             <div className="flex-1 max-h-[calc(100vh-380px)] overflow-y-auto bg-zinc-900/20 rounded-3xl border border-zinc-800/50 p-3 space-y-2">
-                {sessions.filter(s => (s.projectId || 'project-general') === selectedProjectId).map(session => (
+                {sessions.items.map(session => (
                     <div 
                         key={session.id}
                         onClick={() => handleSelectSession(session)}
                         className={`group relative flex items-start gap-3 p-3 rounded-2xl cursor-pointer transition-all border ${currentSessionId === session.id ? 'bg-zinc-800 border-purple-500/50 shadow-xl' : 'hover:bg-zinc-800/40 border-transparent hover:border-zinc-800'}`}
                     >
                         <div className="w-10 h-10 rounded-xl bg-black flex-shrink-0 overflow-hidden border border-zinc-700">
-                            {session.generatedImages[0] ? <img src={session.generatedImages[0]} className="w-full h-full object-cover" /> : <ImageIcon className="w-5 h-5 text-zinc-700 m-auto mt-2.5" />}
+                            {session.generatedImages[0] ? <StoredImage image={session.generatedImages[0]} thumbnail className="w-full h-full object-cover" /> : <ImageIcon className="w-5 h-5 text-zinc-700 m-auto mt-2.5" />}
                         </div>
                         <div className="flex-1 min-w-0">
                             <p className="text-xs font-bold text-zinc-200 truncate pr-4">{session.prompt || "Sans titre"}</p>
@@ -308,6 +350,7 @@ export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initial
                         <button onClick={(e) => handleDeleteSession(session.id, e)} className="absolute right-2 top-2 p-1.5 text-zinc-600 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"><Trash2 className="w-3.5 h-3.5" /></button>
                     </div>
                 ))}
+                {sessions.hasMore && <LoadMoreSentinel onVisible={sessions.loadMore} loading={sessions.loading} />}
             </div>
         </aside>
 
@@ -320,7 +363,7 @@ export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initial
                         <ImageIcon className="w-6 h-6 text-zinc-500" /> 
                         Planche de résultats
                     </h2>
-                    {activeRequests > 0 && <span className="flex items-center gap-2 text-xs font-bold text-purple-400 bg-purple-500/10 px-3 py-1 rounded-full animate-pulse"><Loader2 className="w-3.5 h-3.5 animate-spin" /> Génération active...</span>}
+                    {sessionJobs.length > 0 && <span className="flex items-center gap-2 text-xs font-bold text-purple-400 bg-purple-500/10 px-3 py-1 rounded-full animate-pulse"><Loader2 className="w-3.5 h-3.5 animate-spin" /> Génération active ({sessionJobs.reduce((acc, job) => acc + job.completed, 0)}/{sessionJobs.reduce((acc, job) => acc + job.variationCount, 0)})...</span>}
                 </div>
 
                 {generatedResults.length === 0 ? (
@@ -337,7 +380,7 @@ export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initial
                                 onDoubleClick={() => handleImageDoubleClick(img)}
                                 className={`group relative aspect-square rounded-3xl overflow-hidden border-2 transition-all cursor-pointer ${activeContextImage === img ? 'border-purple-500 shadow-[0_0_30px_rgba(168,85,247,0.2)]' : 'border-zinc-800 hover:border-zinc-700'}`}
                             >
-                                <img src={img} className="w-full h-full object-contain bg-black/40" />
+                                <StoredImage image={img} className="w-full h-full object-contain bg-black/40" />
                                 {activeContextImage === img && (
                                     <div className="absolute top-4 left-4 bg-purple-600 text-white px-3 py-1.5 rounded-full text-[10px] font-bold uppercase flex items-center gap-2 shadow-xl border border-purple-400/50">
                                         <Target className="w-3.5 h-3.5" /> Sélectionné
@@ -345,7 +388,8 @@ export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initial
                                 )}
                                 <div className="absolute top-4 right-4 opacity-0 group-hover:opacity-100 transition-all flex flex-col gap-2">
                                     <button onClick={(e) => { e.stopPropagation(); onJumpToAngles?.(img); }} className="p-2.5 bg-black/60 hover:bg-black text-white hover:text-orange-400 rounded-xl backdrop-blur-md" title="Angles 3D"><Box className="w-5 h-5" /></button>
-                                    <a href={img} download={`gen-${idx}.png`} onClick={e => e.stopPropagation()} className="p-2.5 bg-black/60 hover:bg-black text-white rounded-xl backdrop-blur-md" title="Télécharger"><Download className="w-5 h-5" /></a>
+                                    {onJumpToEdit && <button onClick={(e) => { e.stopPropagation(); onJumpToEdit(img); }} className="p-2.5 bg-black/60 hover:bg-black text-white hover:text-blue-400 rounded-xl backdrop-blur-md" title="Magic Editor"><Wand2 className="w-5 h-5" /></button>}
+                                    <button onClick={(e) => { e.stopPropagation(); downloadImage(img, `gen-${idx}.png`); }} className="p-2.5 bg-black/60 hover:bg-black text-white rounded-xl backdrop-blur-md" title="Télécharger"><Download className="w-5 h-5" /></button>
                                 </div>
                             </div>
                         ))}
@@ -372,7 +416,7 @@ export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initial
                                             onDoubleClick={() => handleImageDoubleClick(msg.image!)}
                                             className={`relative mt-2 rounded-2xl overflow-hidden border-2 cursor-pointer transition-all ${activeContextImage === msg.image ? 'border-purple-500 shadow-lg' : 'border-zinc-700/50'}`}
                                         >
-                                            <img src={msg.image} className="w-full h-auto" />
+                                            <StoredImage image={msg.image} className="w-full h-auto" />
                                             {activeContextImage === msg.image && <Target className="absolute top-3 left-3 w-5 h-5 text-purple-400 drop-shadow-xl" />}
                                         </div>
                                     )}
@@ -417,7 +461,7 @@ export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initial
                     <div className="flex items-center gap-2 overflow-x-auto max-w-[300px] scrollbar-hide">
                         {refImages.map((f, i) => (
                             <div key={i} className="relative w-12 h-12 rounded-xl overflow-hidden border border-zinc-700 shrink-0 shadow-lg">
-                                <img src={URL.createObjectURL(f)} className="w-full h-full object-cover" />
+                                <BlobImage blob={f} className="w-full h-full object-cover" />
                                 <button onClick={() => setRefImages(prev => prev.filter((_, idx) => idx !== i))} className="absolute inset-0 bg-red-900/60 opacity-0 hover:opacity-100 flex items-center justify-center transition-opacity"><X className="w-4 h-4 text-white" /></button>
                             </div>
                         ))}
@@ -447,6 +491,14 @@ export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initial
                             <option value="4K">4K Ultra</option>
                         </select>
                     </div>
+                    <div className="flex items-center bg-zinc-950 border border-zinc-800 rounded-xl px-3 py-1.5 gap-2" title="Variations par génération">
+                        <Layers className="w-3.5 h-3.5 text-zinc-500" />
+                        <select value={variationCount} onChange={e => setVariationCount(Number(e.target.value))} className="bg-transparent text-xs font-bold text-zinc-300 outline-none">
+                            {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map(n => (
+                                <option key={n} value={n}>{n} {n > 1 ? 'variations' : 'variation'}</option>
+                            ))}
+                        </select>
+                    </div>
                 </div>
             </div>
 
@@ -463,10 +515,10 @@ export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initial
                 <div className="flex flex-col gap-2 shrink-0">
                     <button 
                         onClick={handleGenerate}
-                        disabled={activeRequests >= MAX_CONCURRENT || !prompt}
+                        disabled={!prompt}
                         className="h-20 px-8 bg-gradient-to-br from-purple-600 to-indigo-700 hover:from-purple-500 hover:to-indigo-600 text-white font-black rounded-[1.5rem] shadow-[0_10px_25px_rgba(168,85,247,0.3)] transition-all disabled:opacity-30 disabled:grayscale flex items-center gap-3"
                     >
-                        {activeRequests > 0 ? <Loader2 className="w-6 h-6 animate-spin" /> : <Sparkles className="w-6 h-6" />}
+                        {sessionJobs.length > 0 ? <Loader2 className="w-6 h-6 animate-spin" /> : <Sparkles className="w-6 h-6" />}
                         <span className="text-lg">CRÉER</span>
                     </button>
                 </div>
@@ -476,7 +528,7 @@ export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initial
                 <div className="flex items-center gap-4">
                     <p className="text-[10px] font-bold text-zinc-600 uppercase tracking-widest flex items-center gap-1.5">
                         <DollarSign className="w-3 h-3 text-green-500" /> Coût estimé : 
-                        <span className="text-zinc-400">{formatCurrency((resolution === Resolution.RES_4K ? PRICE_PER_IMAGE_4K : PRICE_PER_IMAGE_PRO)*2)}</span>
+                        <span className="text-zinc-400">{formatCurrency(estimateGenerationCost(variationCount, resolution))}</span>
                     </p>
                 </div>
                 <p className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Nano Banana Pro v3</p>
@@ -488,18 +540,18 @@ export const GenerateView: React.FC<GenerateViewProps> = ({ currentUser, initial
         isOpen={isModalOpen} 
         imageUrl={selectedImageForModal} 
         onClose={() => setIsModalOpen(false)} 
-        onGenerateEdit={async (p, ref, file) => {
-            const res = await refineImage(p, ref, systemInstruction, file, undefined, Resolution.RES_1K);
+        onGenerateEdit={async (p, ref, file, mask) => {
+            let res: ImageOutput | null = null;
+            try {
+                res = await refineImage({ user: currentUser, projectId: selectedProjectId }, p, await loadImageDataUrl(ref), systemInstruction, file, undefined, Resolution.RES_1K, mask);
+            } catch (err: any) {
+                setError(err.message || "Erreur de retouche.");
+            }
             if (res) {
-                const modelMsg: ChatMessage = { id: Date.now().toString(), role: 'model', image: res };
+                const modelMsg: ChatMessage = { id: Date.now().toString(), role: 'model', text: res.text, image: res.image };
                 setChatMessages(prev => [...prev, modelMsg]);
-                setActiveContextImage(res);
-                if (currentSessionId) {
-                    const sess = sessions.find(s => s.id === currentSessionId);
-                    if (sess) {
-                        await saveSession({ ...sess, chatMessages: [...sess.chatMessages, {id:'m', role:'user', text:p}, modelMsg] });
-                    }
-                }
+                setActiveContextImage(res.image);
+                await appendToCurrentSession([{ id: crypto.randomUUID(), role: 'user', text: p }, modelMsg]);
             }
         }} 
       />
@@ -1,39 +1,39 @@
 import React, { useEffect, useState } from 'react';
-import { GeneratedImage, Project } from '../types';
-import { getImageHistory, getProjects, getAppConfig } from '../services/db';
-import { Clock, Download, ImageOff, Search, Copy, Folder, Filter, ExternalLink, Box } from 'lucide-react';
+import { Project, User } from '../types';
+import { getImageHistoryPage, getProjects, getAppConfig } from '../services/db';
+import { downloadImage, openImage, StoredImage } from './StoredImage';
+import { LoadMoreSentinel, usePaginatedQuery } from './InfiniteScroll';
+import { Clock, Download, ImageOff, Search, Copy, Folder, Filter, ExternalLink, Box, Wand2 } from 'lucide-react';
 
 interface HistoryViewProps {
+    currentUser: User;
     onJumpToGen?: (imageUrl: string) => void;
     onJumpToAngles?: (imageUrl: string) => void;
+    onJumpToEdit?: (imageUrl: string) => void;
 }
 
-export const HistoryView: React.FC<HistoryViewProps> = ({ onJumpToGen, onJumpToAngles }) => {
-  const [images, setImages] = useState<GeneratedImage[]>([]);
+export const HistoryView: React.FC<HistoryViewProps> = ({ currentUser, onJumpToGen, onJumpToAngles, onJumpToEdit }) => {
   const [projects, setProjects] = useState<Project[]>([]);
-  const [loading, setLoading] = useState(true);
   const [appLogo, setAppLogo] = useState<string>('');
   
   // Filters
   const [searchTerm, setSearchTerm] = useState('');
+  const [search, setSearch] = useState(''); // searchTerm once typing pauses
   const [selectedProjectId, setSelectedProjectId] = useState<string>('');
 
-  const loadData = async () => {
-    setLoading(true);
-    const [history, projectsList] = await Promise.all([
-        getImageHistory(),
-        getProjects()
-    ]);
-    const config = getAppConfig();
-    
-    setImages(history);
-    setProjects(projectsList);
-    setAppLogo(config.logoUrl || '');
-    setLoading(false);
-  };
+  const { items: images, loading, hasMore, loadMore } = usePaginatedQuery(
+    after => getImageHistoryPage(currentUser, { projectId: selectedProjectId || undefined, search }, after),
+    [selectedProjectId, search]
+  );
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
 
   useEffect(() => {
-    loadData();
+    getProjects(currentUser).then(setProjects);
+    setAppLogo(getAppConfig().logoUrl || '');
   }, []);
 
   const handleCopyPrompt = (prompt: string, e: React.MouseEvent) => {
@@ -41,15 +41,6 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ onJumpToGen, onJumpToA
     navigator.clipboard.writeText(prompt);
   };
 
-  const filteredImages = images.filter(img => {
-    const matchesSearch = img.prompt.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                          (img.projectName && img.projectName.toLowerCase().includes(searchTerm.toLowerCase()));
-    
-    const matchesProject = selectedProjectId ? img.projectId === selectedProjectId : true;
-
-    return matchesSearch && matchesProject;
-  });
-
   return (
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 bg-zinc-900/50 p-4 rounded-xl border border-zinc-800">
@@ -89,13 +80,13 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ onJumpToGen, onJumpToA
         </div>
       </div>
 
-      {loading ? (
+      {loading && images.length === 0 ? (
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
           {[...Array(4)].map((_, i) => (
             <div key={i} className="aspect-square bg-zinc-900 rounded-xl animate-pulse" />
           ))}
         </div>
-      ) : filteredImages.length === 0 ? (
+      ) : images.length === 0 ? (
         <div className="flex flex-col items-center justify-center py-24 text-zinc-500 border-2 border-dashed border-zinc-800 rounded-2xl">
           {appLogo ? (
               <img src={appLogo} alt="App Logo" className="w-16 h-16 mb-4 opacity-50 grayscale" />
@@ -106,14 +97,15 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ onJumpToGen, onJumpToA
         </div>
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
-          {filteredImages.map((img) => (
+          {images.map((img) => (
             <div 
                 key={img.id} 
                 className="group flex flex-col bg-zinc-900 rounded-xl overflow-hidden border border-zinc-800 hover:border-purple-500/50 transition-all"
             >
               <div className="aspect-square bg-black/50 relative">
-                <img 
-                  src={img.url} 
+                <StoredImage 
+                  image={img.image} 
+                  thumbnail
                   alt="Historical generation" 
                   className="w-full h-full object-contain"
                   loading="lazy"
@@ -126,7 +118,7 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ onJumpToGen, onJumpToA
                            <button
                                 onClick={(e) => {
                                     e.stopPropagation();
-                                    onJumpToAngles(img.url);
+                                    onJumpToAngles(img.image);
                                 }}
                                 className="p-2 bg-white/10 hover:bg-white/20 text-white hover:text-orange-400 rounded-full backdrop-blur-md transition-colors"
                                 title="Change Angle"
@@ -134,15 +126,38 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ onJumpToGen, onJumpToA
                                 <Box className="w-5 h-5" />
                            </button>
                        )}
-                       <a 
-                         href={img.url}
-                         download={`gemini-history-${img.timestamp}.png`}
+                       {onJumpToEdit && (
+                           <button
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    onJumpToEdit(img.image);
+                                }}
+                                className="p-2 bg-white/10 hover:bg-white/20 text-white hover:text-blue-400 rounded-full backdrop-blur-md transition-colors"
+                                title="Edit Image"
+                           >
+                                <Wand2 className="w-5 h-5" />
+                           </button>
+                       )}
+                       <button
+                         className="p-2 bg-white/10 hover:bg-white/20 text-white rounded-full backdrop-blur-md transition-colors"
+                         title="Open Full Size"
+                         onClick={(e) => {
+                             e.stopPropagation();
+                             openImage(img.image);
+                         }}
+                       >
+                         <ExternalLink className="w-5 h-5" />
+                       </button>
+                       <button
                          className="p-2 bg-white/10 hover:bg-white/20 text-white rounded-full backdrop-blur-md transition-colors"
                          title="Download"
-                         onClick={(e) => e.stopPropagation()}
+                         onClick={(e) => {
+                             e.stopPropagation();
+                             downloadImage(img.image, `gemini-history-${img.timestamp}.png`);
+                         }}
                        >
                          <Download className="w-5 h-5" />
-                       </a>
+                       </button>
                    </div>
                 </div>
               </div>
@@ -163,6 +178,11 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ onJumpToGen, onJumpToA
                     <p className="text-xs text-zinc-300 line-clamp-3 mb-1 font-medium" title={img.prompt}>
                     {img.prompt}
                     </p>
+                    {img.modelText && (
+                        <p className="text-[11px] text-zinc-500 italic line-clamp-2 mb-1" title={img.modelText}>
+                        {img.modelText}
+                        </p>
+                    )}
                     <button 
                         onClick={(e) => handleCopyPrompt(img.prompt, e)}
                         className="absolute bottom-0 right-0 p-1 text-zinc-500 hover:text-white bg-zinc-900/80 rounded opacity-0 group-hover/text:opacity-100 transition-opacity"
@@ -176,6 +196,7 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ onJumpToGen, onJumpToA
           ))}
         </div>
       )}
+      {hasMore && <LoadMoreSentinel onVisible={loadMore} loading={loading} />}
     </div>
   );
 };
\ No newline at end of file
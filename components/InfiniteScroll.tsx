@@ -0,0 +1,72 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Page, PageCursor } from '../services/db';
+
+/**
+ * Pages of a query (see readPage in services/db.ts), appended as they load.
+ * The list starts over whenever one of deps changes; pages of a replaced query are dropped.
+ */
+export const usePaginatedQuery = <T,>(fetchPage: (after: PageCursor | null) => Promise<Page<T>>, deps: React.DependencyList) => {
+    const [items, setItems] = useState<T[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [hasMore, setHasMore] = useState(false);
+    const nextRef = useRef<PageCursor | null>(null);
+    const queryRef = useRef(0);
+    const loadingRef = useRef(false);
+    const fetchPageRef = useRef(fetchPage);
+    fetchPageRef.current = fetchPage;
+
+    const load = async (reset: boolean) => {
+        const query = reset ? ++queryRef.current : queryRef.current;
+        loadingRef.current = true;
+        setLoading(true);
+        try {
+            const page = await fetchPageRef.current(reset ? null : nextRef.current);
+            if (query !== queryRef.current) return;
+            nextRef.current = page.next;
+            setItems(prev => reset ? page.items : [...prev, ...page.items]);
+            setHasMore(page.next !== null);
+        } catch (e) {
+            console.error("Failed to load page", e);
+            if (query === queryRef.current) setHasMore(false);
+        } finally {
+            if (query === queryRef.current) {
+                loadingRef.current = false;
+                setLoading(false);
+            }
+        }
+    };
+
+    useEffect(() => {
+        load(true);
+    }, deps);
+
+    const loadMore = useCallback(() => {
+        if (!loadingRef.current && nextRef.current) load(false);
+    }, []);
+
+    return { items, loading, hasMore, loadMore, reload: () => load(true) };
+};
+
+/**
+ * Put at the end of a list: calls onVisible when it scrolls into view
+ */
+export const LoadMoreSentinel: React.FC<{ onVisible: () => void; loading: boolean }> = ({ onVisible, loading }) => {
+    const ref = useRef<HTMLDivElement>(null);
+
+    // Observing again after each load keeps loading while the end of the list is still in view
+    useEffect(() => {
+        if (!ref.current) return;
+        const observer = new IntersectionObserver(entries => {
+            if (entries[0].isIntersecting) onVisible();
+        }, { rootMargin: '400px' });
+        observer.observe(ref.current);
+        return () => observer.disconnect();
+    }, [onVisible, loading]);
+
+    return (
+        <div ref={ref} className="flex justify-center py-4">
+            {loading && <Loader2 className="w-5 h-5 animate-spin text-zinc-500" />}
+        </div>
+    );
+};
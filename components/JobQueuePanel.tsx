@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { GenerationJob, JobStatus } from '../types';
+import { cancelJob, clearFinishedJobs, EVENT_JOBS_UPDATED, getJobs, isJobActive, removeJob, retryJob } from '../services/jobQueue';
+import { StoredImage } from './StoredImage';
+import { AlertTriangle, Ban, CheckCircle2, Clock, ListTodo, Loader2, RotateCcw, Trash2, X, XCircle } from 'lucide-react';
+
+const STATUS_STYLES: Record<JobStatus, { label: string; icon: React.ReactNode }> = {
+    queued: { label: 'Queued', icon: <Clock className="w-4 h-4 text-zinc-400" /> },
+    running: { label: 'Running', icon: <Loader2 className="w-4 h-4 text-purple-400 animate-spin" /> },
+    succeeded: { label: 'Done', icon: <CheckCircle2 className="w-4 h-4 text-green-500" /> },
+    failed: { label: 'Failed', icon: <XCircle className="w-4 h-4 text-red-500" /> },
+    cancelled: { label: 'Cancelled', icon: <Ban className="w-4 h-4 text-zinc-500" /> },
+    interrupted: { label: 'Interrupted', icon: <AlertTriangle className="w-4 h-4 text-yellow-500" /> }
+};
+
+// An interrupted run may already have been billed: running it again is the user's call
+const confirmRetry = (job: GenerationJob) => {
+    if (job.status === 'interrupted' && !window.confirm(`This run was interrupted by a reload and may already have been billed for ${job.variationCount} images. Run it again?`)) return;
+    retryJob(job.id);
+};
+
+/**
+ * Nav button listing the Generate jobs of the logged-in user, newest first
+ */
+export const JobQueuePanel: React.FC = () => {
+    const [jobs, setJobs] = useState<GenerationJob[]>(getJobs());
+    const [isOpen, setIsOpen] = useState(false);
+
+    useEffect(() => {
+        const refresh = () => setJobs(getJobs());
+        refresh();
+        window.addEventListener(EVENT_JOBS_UPDATED, refresh);
+        return () => window.removeEventListener(EVENT_JOBS_UPDATED, refresh);
+    }, []);
+
+    const activeCount = jobs.filter(isJobActive).length;
+    const hasFinished = jobs.some(job => !isJobActive(job));
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={`relative p-2 rounded-lg transition-colors ${isOpen ? 'text-zinc-100 bg-zinc-900' : 'text-zinc-500 hover:text-zinc-200 hover:bg-zinc-900'}`}
+                title="Generation queue"
+            >
+                {activeCount > 0 ? <Loader2 className="w-5 h-5 animate-spin text-purple-400" /> : <ListTodo className="w-5 h-5" />}
+                {activeCount > 0 && (
+                    <span className="absolute -top-0.5 -right-0.5 min-w-[1rem] h-4 px-1 rounded-full bg-purple-600 text-[10px] font-bold text-white flex items-center justify-center">
+                        {activeCount}
+                    </span>
+                )}
+            </button>
+
+            {isOpen && (
+                <>
+                    <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+                    <div className="absolute right-0 top-full mt-2 w-96 z-50 bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl overflow-hidden">
+                        <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+                            <h3 className="text-sm font-bold text-zinc-200">Generation Queue</h3>
+                            {hasFinished && (
+                                <button onClick={clearFinishedJobs} className="text-xs text-zinc-500 hover:text-zinc-200">
+                                    Clear finished
+                                </button>
+                            )}
+                        </div>
+
+                        {jobs.length === 0 ? (
+                            <p className="px-4 py-8 text-center text-sm text-zinc-500">No generation yet.</p>
+                        ) : (
+                            <ul className="max-h-[60vh] overflow-y-auto divide-y divide-zinc-800">
+                                {[...jobs].reverse().map(job => {
+                                    const status = STATUS_STYLES[job.status];
+                                    return (
+                                        <li key={job.id} className="px-4 py-3 flex gap-3">
+                                            <div className="pt-0.5 shrink-0">{status.icon}</div>
+                                            <div className="flex-1 min-w-0 space-y-1">
+                                                <p className="text-sm text-zinc-200 truncate" title={job.prompt}>{job.prompt}</p>
+                                                <p className="text-[11px] text-zinc-500">
+                                                    {status.label} · {job.completed}/{job.variationCount} images · {job.resolution}
+                                                    {job.attempts > 1 && ` · attempt ${job.attempts}`}
+                                                </p>
+                                                {job.error && <p className="text-[11px] text-red-400">{job.error}</p>}
+                                                {job.results.length > 0 && (
+                                                    <div className="flex gap-1.5 pt-1">
+                                                        {job.results.map((result, i) => (
+                                                            <StoredImage key={i} image={result.image} thumbnail alt="" title={result.text} className="w-10 h-10 rounded-md object-cover border border-zinc-700" />
+                                                        ))}
+                                                    </div>
+                                                )}
+                                            </div>
+                                            <div className="flex items-start gap-1 shrink-0">
+                                                {isJobActive(job) ? (
+                                                    <button onClick={() => cancelJob(job.id)} className="p-1 text-zinc-500 hover:text-red-400" title="Cancel">
+                                                        <X className="w-4 h-4" />
+                                                    </button>
+                                                ) : (
+                                                    <>
+                                                        {job.status !== 'succeeded' && (
+                                                            <button onClick={() => confirmRetry(job)} className="p-1 text-zinc-500 hover:text-zinc-200" title="Retry">
+                                                                <RotateCcw className="w-4 h-4" />
+                                                            </button>
+                                                        )}
+                                                        <button onClick={() => removeJob(job.id)} className="p-1 text-zinc-500 hover:text-red-400" title="Remove">
+                                                            <Trash2 className="w-4 h-4" />
+                                                        </button>
+                                                    </>
+                                                )}
+                                            </div>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
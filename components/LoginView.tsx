@@ -4,7 +4,7 @@ import { User } from '../types';
 import { Loader2, Layout, Lock, Mail, Eye, EyeOff, CheckSquare, Square, User as UserIcon } from 'lucide-react';
 
 interface LoginViewProps {
-    onLogin: (user: User, remember: boolean) => void;
+    onLogin: (user: User, remember: boolean) => Promise<void>;
 }
 
 export const LoginView: React.FC<LoginViewProps> = ({ onLogin }) => {
@@ -31,7 +31,7 @@ export const LoginView: React.FC<LoginViewProps> = ({ onLogin }) => {
             
             const user = await authenticateUser(identifier, password);
             if (user) {
-                onLogin(user, rememberMe);
+                await onLogin(user, rememberMe);
             } else {
                 setError('Invalid credentials');
             }
@@ -43,7 +43,7 @@ export const LoginView: React.FC<LoginViewProps> = ({ onLogin }) => {
     };
 
     const handleForgotPassword = () => {
-        alert("Please contact your administrator to reset your password.");
+        alert("Please ask your administrator to send you a password reset link.");
     };
 
     return (
@@ -110,7 +110,7 @@ export const LoginView: React.FC<LoginViewProps> = ({ onLogin }) => {
                                 {rememberMe && <CheckSquare className="w-3 h-3 text-white" />}
                             </div>
                             <span className="text-xs text-zinc-400 group-hover:text-zinc-300 select-none">
-                                Se souvenir de moi (1h)
+                                Se souvenir de moi (30 jours)
                             </span>
                          </div>
 
@@ -137,10 +137,6 @@ export const LoginView: React.FC<LoginViewProps> = ({ onLogin }) => {
                         {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : "Sign In"}
                     </button>
 
-                    <div className="mt-6 text-center text-xs text-zinc-600">
-                        <p>Demo Credentials:</p>
-                        <p>Admin: <span className="text-zinc-400">Karim / 1234</span></p>
-                    </div>
                 </form>
             </div>
         </div>
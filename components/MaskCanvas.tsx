@@ -0,0 +1,700 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { buildMask, combineSelection, drawSelections, drawStroke, drawStrokes, EMPTY_MASK, getSelectionMode, InpaintMask, magicWand, MaskState, MaskStroke, Point, readImagePixels, Rect, SelectionGeometry, SelectionMode } from '../services/mask';
+import { MousePointer2, ChevronsLeftRight, Lasso, Pentagon, Wand, Brush, Eraser, Hand, Layers, Palette, Undo2, Redo2, Feather, X } from 'lucide-react';
+
+/**
+ * Mask editing shared by EditView and ImageDetailModal: useMaskEditor holds the tools, the mask and its history,
+ * MaskCanvas draws the image with the mask on top, MaskToolbar / MaskShortcuts are the matching controls.
+ *
+ * Each history step also records which image version is shown (see services/editHistory.ts),
+ * so undo/redo walks back through edit results as well as through mask changes.
+ */
+
+export type MaskTool = 'select' | 'lasso' | 'polygon' | 'wand' | 'brush' | 'eraser' | 'pan';
+
+const MAX_HISTORY = 50;
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 3;
+const SCALE_STEP = 0.25;
+const MIN_BRUSH = 5;
+const MAX_BRUSH = 100;
+const MAX_FEATHER = 40;
+const MAX_TOLERANCE = 128;
+const MIN_BOX = 5; // Smaller boxes are treated as a click (displayed pixels)
+
+export const MASK_SHORTCUTS: [string, string][] = [
+    ['V / L / P / W', 'Box / Lasso / Polygon / Wand'],
+    ['B / E / H', 'Brush / Eraser / Pan'],
+    ['Shift + Select', 'Add to Selection'],
+    ['Alt + Select', 'Subtract'],
+    ['Enter / Esc', 'Close / Drop Polygon'],
+    ['Space + Drag', 'Pan'],
+    ['[ / ]', 'Brush Size'],
+    ['Ctrl + Z', 'Undo'],
+    ['Ctrl + Shift + Z', 'Redo'],
+];
+
+interface EditStep {
+    mask: MaskState;
+    versionId: string | null;
+}
+
+interface EditStepHistory {
+    past: EditStep[];
+    present: EditStep;
+    future: EditStep[];
+}
+
+const createHistory = (versionId: string | null): EditStepHistory => ({ past: [], present: { mask: EMPTY_MASK, versionId }, future: [] });
+
+const isMaskEmpty = (mask: MaskState) => mask.strokes.length === 0 && mask.selections.length === 0;
+
+// Shortcuts must not fire while typing a prompt
+const isTyping = (target: EventTarget | null) => {
+    if (!(target instanceof HTMLElement)) return false;
+    if (target.tagName === 'TEXTAREA' || target.isContentEditable) return true;
+    return target.tagName === 'INPUT' && !['range', 'color', 'checkbox'].includes((target as HTMLInputElement).type);
+};
+
+/**
+ * State of one mask editor. Shortcuts are only listened to while active (e.g. the modal is open).
+ */
+export const useMaskEditor = (active: boolean = true) => {
+    const [tool, setTool] = useState<MaskTool>('select');
+    const [brushSize, setBrushSize] = useState(30);
+    const [brushColor, setBrushColor] = useState('#a855f7'); // Default Purple
+    const [feather, setFeather] = useState(0);
+    const [wandTolerance, setWandTolerance] = useState(32);
+    const [scale, setScale] = useState(1);
+    const [offset, setOffset] = useState<Point>({ x: 0, y: 0 });
+    const [history, setHistory] = useState<EditStepHistory>(() => createHistory(null));
+
+    const [isAltPressed, setIsAltPressed] = useState(false);
+    const [isSpacePressed, setIsSpacePressed] = useState(false);
+
+    const imageRef = useRef<HTMLImageElement>(null);
+
+    const pushStep = useCallback((update: (step: EditStep) => EditStep) => {
+        setHistory(h => ({ past: [...h.past, h.present].slice(-MAX_HISTORY), present: update(h.present), future: [] }));
+    }, []);
+
+    const commit = useCallback((update: (mask: MaskState) => MaskState) => {
+        pushStep(step => ({ ...step, mask: update(step.mask) }));
+    }, [pushStep]);
+
+    // Show another version (new edit result, or an earlier version to branch from), keeping the mask
+    const selectVersion = useCallback((versionId: string) => {
+        pushStep(step => ({ ...step, versionId }));
+    }, [pushStep]);
+
+    const undo = useCallback(() => {
+        setHistory(h => h.past.length === 0 ? h : {
+            past: h.past.slice(0, -1),
+            present: h.past[h.past.length - 1],
+            future: [h.present, ...h.future]
+        });
+    }, []);
+
+    const redo = useCallback(() => {
+        setHistory(h => h.future.length === 0 ? h : {
+            past: [...h.past, h.present],
+            present: h.future[0],
+            future: h.future.slice(1)
+        });
+    }, []);
+
+    // Clearing is itself undoable
+    const clear = useCallback(() => {
+        setHistory(h => isMaskEmpty(h.present.mask) ? h : {
+            past: [...h.past, h.present].slice(-MAX_HISTORY),
+            present: { ...h.present, mask: EMPTY_MASK },
+            future: []
+        });
+    }, []);
+
+    // New image: empty mask, no history, view reset
+    const reset = useCallback((versionId: string | null = null) => {
+        setHistory(createHistory(versionId));
+        setScale(1);
+        setOffset({ x: 0, y: 0 });
+    }, []);
+
+    const zoomIn = () => setScale(s => Math.min(MAX_SCALE, s + SCALE_STEP));
+    const zoomOut = () => setScale(s => Math.max(MIN_SCALE, s - SCALE_STEP));
+
+    /**
+     * The mask at the displayed image's natural size, null when nothing is painted or selected
+     */
+    const exportMask = (): InpaintMask | null => {
+        const img = imageRef.current;
+        if (!img || !img.naturalWidth) return null;
+        const dataUrl = buildMask(history.present.mask, img.naturalWidth, img.naturalHeight);
+        return dataUrl ? { dataUrl, feather } : null;
+    };
+
+    useEffect(() => {
+        if (!active) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Alt') setIsAltPressed(true);
+            if (isTyping(e.target)) return;
+
+            const mod = e.ctrlKey || e.metaKey;
+            const key = e.key.toLowerCase();
+            if (mod && key === 'z') {
+                e.preventDefault();
+                if (e.shiftKey) redo(); else undo();
+                return;
+            }
+            if (mod && key === 'y') {
+                e.preventDefault();
+                redo();
+                return;
+            }
+            if (mod || e.altKey) return;
+
+            if (e.code === 'Space') {
+                e.preventDefault();
+                setIsSpacePressed(true);
+                return;
+            }
+            if (key === '[') setBrushSize(s => Math.max(MIN_BRUSH, s - 5));
+            if (key === ']') setBrushSize(s => Math.min(MAX_BRUSH, s + 5));
+            if (e.repeat) return;
+            if (key === 'v') setTool('select');
+            if (key === 'l') setTool('lasso');
+            if (key === 'p') setTool('polygon');
+            if (key === 'w') setTool('wand');
+            if (key === 'b') setTool('brush');
+            if (key === 'e') setTool('eraser');
+            if (key === 'h') setTool('pan');
+        };
+        const handleKeyUp = (e: KeyboardEvent) => {
+            if (e.key === 'Alt') setIsAltPressed(false);
+            if (e.code === 'Space') setIsSpacePressed(false);
+        };
+        // Keys released while the window lost focus never fire keyup
+        const handleBlur = () => {
+            setIsAltPressed(false);
+            setIsSpacePressed(false);
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        window.addEventListener('blur', handleBlur);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+            window.removeEventListener('blur', handleBlur);
+            handleBlur();
+        };
+    }, [active, undo, redo]);
+
+    return {
+        tool, setTool,
+        brushSize, setBrushSize,
+        brushColor, setBrushColor,
+        feather, setFeather,
+        wandTolerance, setWandTolerance,
+        scale, zoomIn, zoomOut,
+        offset, setOffset,
+        mask: history.present.mask,
+        versionId: history.present.versionId,
+        canUndo: history.past.length > 0,
+        canRedo: history.future.length > 0,
+        commit, selectVersion, undo, redo, clear, reset,
+        isAltPressed, isSpacePressed,
+        imageRef,
+        exportMask
+    };
+};
+
+export type MaskEditor = ReturnType<typeof useMaskEditor>;
+
+interface MaskCanvasProps {
+    editor: MaskEditor;
+    imageUrl: string;
+    alt: string;
+    imageClassName?: string; // Size constraints of the image (max-h...)
+    maskVisible?: boolean;
+    // Before/after slider: this image is shown left of the handle, imageUrl right of it. Tools are off meanwhile.
+    compareImageUrl?: string | null;
+}
+
+interface Drag {
+    mode: 'pan' | 'box' | 'lasso' | 'paint';
+    start: Point;       // Image pixels
+    client: Point;      // Screen pixels, for panning
+    offset: Point;
+}
+
+const SELECTION_COLOR = '#a855f7';
+const CLOSE_DISTANCE = 8; // Clicking this close to the first polygon point closes it (displayed pixels)
+
+/**
+ * The image with the mask on top. Pointer positions are mapped from the screen to natural image pixels
+ * through the image's on-screen box, so zoom, pan and CSS sizing never change the mask coordinates.
+ */
+export const MaskCanvas: React.FC<MaskCanvasProps> = ({ editor, imageUrl, alt, imageClassName = '', maskVisible = true, compareImageUrl }) => {
+    const { mask, brushColor, imageRef, tool } = editor;
+    const [imageSize, setImageSize] = useState({ width: 0, height: 0 });
+    // Selection being drawn, shown as SVG until committed
+    const [draftRect, setDraftRect] = useState<Rect | null>(null);
+    const [draftPath, setDraftPath] = useState<Point[]>([]); // Lasso or polygon points
+    const [hoverPoint, setHoverPoint] = useState<Point | null>(null); // Where the next polygon point would go
+    const [split, setSplit] = useState(50); // Before/after handle position, % of the width
+
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const selectionCanvasRef = useRef<HTMLCanvasElement>(null);
+    const cursorRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<Drag | null>(null);
+    const strokeRef = useRef<MaskStroke | null>(null);
+    const polygonModeRef = useRef<SelectionMode>('replace');
+    const pixelsRef = useRef<{ src: string; data: ImageData } | null>(null);
+
+    const isComparing = !!compareImageUrl;
+    const showMask = maskVisible && !isComparing;
+    const isPanning = tool === 'pan' || editor.isSpacePressed;
+    const isPainting = !isPanning && (tool === 'brush' || tool === 'eraser');
+
+    // Both canvases have the natural size of the image: redraw whenever the mask changes
+    useEffect(() => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (ctx) drawStrokes(ctx, mask.strokes, brushColor);
+    }, [mask.strokes, brushColor, imageSize]);
+
+    useEffect(() => {
+        const ctx = selectionCanvasRef.current?.getContext('2d');
+        if (ctx) drawSelections(ctx, mask.selections, SELECTION_COLOR);
+    }, [mask.selections, imageSize]);
+
+    // An unfinished polygon is dropped when switching tools
+    useEffect(() => {
+        setDraftPath([]);
+        setHoverPoint(null);
+    }, [tool]);
+
+    const commitSelection = (shape: SelectionGeometry, mode: SelectionMode) => {
+        editor.commit(m => ({ ...m, selections: combineSelection(m.selections, shape, mode) }));
+    };
+
+    const closePolygon = () => {
+        if (draftPath.length >= 3) commitSelection({ kind: 'polygon', points: draftPath }, polygonModeRef.current);
+        setDraftPath([]);
+        setHoverPoint(null);
+    };
+
+    // Enter closes the polygon, Escape drops it (re-subscribed each render to see the current points)
+    useEffect(() => {
+        if (tool !== 'polygon' || draftPath.length === 0) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (isTyping(e.target)) return;
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                closePolygon();
+            }
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                setDraftPath([]);
+                setHoverPoint(null);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    });
+
+    const handleImageLoad = () => {
+        const img = imageRef.current;
+        if (!img) return;
+        setImageSize(prev => prev.width === img.naturalWidth && prev.height === img.naturalHeight
+            ? prev
+            : { width: img.naturalWidth, height: img.naturalHeight });
+    };
+
+    // Pixels of the shown image, read once per image
+    const getPixels = (): ImageData => {
+        const img = imageRef.current!;
+        if (pixelsRef.current?.src !== img.src) {
+            pixelsRef.current = { src: img.src, data: readImagePixels(img) };
+        }
+        return pixelsRef.current.data;
+    };
+
+    // Screen -> natural image pixels (and layout pixels for the cursor)
+    const getPointer = (e: React.MouseEvent) => {
+        const img = imageRef.current!;
+        const rect = img.getBoundingClientRect();
+        const rx = (e.clientX - rect.left) / rect.width;
+        const ry = (e.clientY - rect.top) / rect.height;
+        return {
+            image: { x: rx * img.naturalWidth, y: ry * img.naturalHeight },
+            layout: { x: rx * img.offsetWidth, y: ry * img.offsetHeight },
+            ratio: img.naturalWidth / img.offsetWidth
+        };
+    };
+
+    const handleMouseDown = (e: React.MouseEvent) => {
+        if (!imageRef.current?.naturalWidth) return;
+        const { image, ratio } = getPointer(e);
+        const client = { x: e.clientX, y: e.clientY };
+
+        if (isPanning) {
+            dragRef.current = { mode: 'pan', start: image, client, offset: editor.offset };
+            return;
+        }
+
+        if (tool === 'wand') {
+            const region = magicWand(getPixels(), image, editor.wandTolerance);
+            if (region) commitSelection(region, getSelectionMode(e));
+        } else if (tool === 'polygon') {
+            if (draftPath.length === 0) polygonModeRef.current = getSelectionMode(e);
+            const first = draftPath[0];
+            const last = draftPath[draftPath.length - 1];
+            if (draftPath.length >= 3 && Math.hypot(image.x - first.x, image.y - first.y) < CLOSE_DISTANCE * ratio) {
+                closePolygon();
+            } else if (!last || Math.hypot(image.x - last.x, image.y - last.y) > 2 * ratio) {
+                // (The second click of a double click lands on the last point: ignored)
+                setDraftPath(prev => [...prev, image]);
+            }
+        } else if (tool === 'select') {
+            dragRef.current = { mode: 'box', start: image, client, offset: editor.offset };
+            setDraftRect({ x: image.x, y: image.y, w: 0, h: 0 });
+        } else if (tool === 'lasso') {
+            dragRef.current = { mode: 'lasso', start: image, client, offset: editor.offset };
+            setDraftPath([image]);
+        } else {
+            dragRef.current = { mode: 'paint', start: image, client, offset: editor.offset };
+            strokeRef.current = { mode: tool === 'brush' ? 'paint' : 'erase', width: editor.brushSize * ratio, points: [image] };
+            const ctx = canvasRef.current?.getContext('2d');
+            if (ctx) drawStroke(ctx, strokeRef.current, brushColor);
+        }
+    };
+
+    const handleMouseMove = (e: React.MouseEvent) => {
+        if (!imageRef.current?.naturalWidth) return;
+        const { image, layout, ratio } = getPointer(e);
+        if (cursorRef.current) {
+            cursorRef.current.style.left = `${layout.x}px`;
+            cursorRef.current.style.top = `${layout.y}px`;
+        }
+        if (tool === 'polygon' && draftPath.length > 0) setHoverPoint(image);
+
+        const drag = dragRef.current;
+        if (!drag) return;
+
+        if (drag.mode === 'pan') {
+            editor.setOffset({ x: drag.offset.x + e.clientX - drag.client.x, y: drag.offset.y + e.clientY - drag.client.y });
+        } else if (drag.mode === 'box') {
+            setDraftRect({
+                x: Math.min(drag.start.x, image.x),
+                y: Math.min(drag.start.y, image.y),
+                w: Math.abs(image.x - drag.start.x),
+                h: Math.abs(image.y - drag.start.y)
+            });
+        } else if (drag.mode === 'lasso') {
+            setDraftPath(prev => {
+                const last = prev[prev.length - 1];
+                return Math.hypot(image.x - last.x, image.y - last.y) > ratio ? [...prev, image] : prev;
+            });
+        } else if (strokeRef.current) {
+            const stroke = strokeRef.current;
+            stroke.points.push(image);
+            const ctx = canvasRef.current?.getContext('2d');
+            if (ctx) drawStroke(ctx, stroke, brushColor, stroke.points.length - 1);
+        }
+    };
+
+    const handleMouseUp = (e: React.MouseEvent) => {
+        const drag = dragRef.current;
+        dragRef.current = null;
+        if (!drag) return;
+        const selectionMode = getSelectionMode(e);
+
+        if (drag.mode === 'paint' && strokeRef.current) {
+            const stroke = strokeRef.current;
+            strokeRef.current = null;
+            editor.commit(m => ({ ...m, strokes: [...m.strokes, stroke] }));
+        }
+
+        if (drag.mode === 'box' && draftRect) {
+            const minSize = MIN_BOX * getPointer(e).ratio;
+            if (draftRect.w > minSize && draftRect.h > minSize) {
+                commitSelection({ kind: 'rect', rect: draftRect }, selectionMode);
+            } else if (selectionMode === 'replace' && mask.selections.length > 0) {
+                // A plain click deselects
+                editor.commit(m => ({ ...m, selections: [] }));
+            }
+            setDraftRect(null);
+        }
+
+        if (drag.mode === 'lasso') {
+            if (draftPath.length >= 3) commitSelection({ kind: 'polygon', points: draftPath }, selectionMode);
+            setDraftPath([]);
+        }
+    };
+
+    const handleDoubleClick = () => {
+        if (tool === 'polygon') closePolygon();
+    };
+
+    const handleSplitDrag = (e: React.MouseEvent) => {
+        e.preventDefault();
+        const handleMove = (ev: MouseEvent) => {
+            const rect = imageRef.current?.getBoundingClientRect();
+            if (rect) setSplit(Math.min(100, Math.max(0, ((ev.clientX - rect.left) / rect.width) * 100)));
+        };
+        const handleUp = () => {
+            window.removeEventListener('mousemove', handleMove);
+            window.removeEventListener('mouseup', handleUp);
+        };
+        window.addEventListener('mousemove', handleMove);
+        window.addEventListener('mouseup', handleUp);
+    };
+
+    const draftPoints = [...draftPath, ...(hoverPoint ? [hoverPoint] : [])].map(p => `${p.x},${p.y}`).join(' ');
+    const draftClass = editor.isAltPressed ? 'fill-red-500/20 stroke-red-500' : 'fill-purple-500/10 stroke-purple-400';
+    const cursorClass = isPanning ? 'cursor-grab active:cursor-grabbing' : (isPainting ? 'cursor-none' : 'cursor-crosshair');
+
+    return (
+        <div
+            className="relative shadow-2xl"
+            style={{ transform: `translate(${editor.offset.x}px, ${editor.offset.y}px) scale(${editor.scale})` }}
+        >
+            {/* Image Container with inline-block to tightly hug content */}
+            <div className="relative inline-block select-none">
+                {/* 1. Base Image */}
+                <img
+                    ref={imageRef}
+                    src={imageUrl}
+                    alt={alt}
+                    onLoad={handleImageLoad}
+                    className={`block object-contain pointer-events-none ${imageClassName}`}
+                    draggable={false}
+                />
+
+                {/* 2. Painted Mask (natural size, stretched over the image) */}
+                <canvas
+                    ref={canvasRef}
+                    width={imageSize.width}
+                    height={imageSize.height}
+                    className={`absolute inset-0 w-full h-full pointer-events-none opacity-50 ${showMask ? '' : 'hidden'}`}
+                />
+
+                {/* 3. Selections (box, lasso, polygon, wand) */}
+                <canvas
+                    ref={selectionCanvasRef}
+                    width={imageSize.width}
+                    height={imageSize.height}
+                    className={`absolute inset-0 w-full h-full pointer-events-none opacity-40 ${showMask ? '' : 'hidden'}`}
+                />
+
+                {/* 4. Selection Being Drawn */}
+                {imageSize.width > 0 && (draftRect || draftPath.length > 0) && (
+                    <svg
+                        className="absolute inset-0 w-full h-full pointer-events-none"
+                        viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+                        preserveAspectRatio="none"
+                    >
+                        {draftRect && (
+                            <rect x={draftRect.x} y={draftRect.y} width={draftRect.w} height={draftRect.h} className={draftClass} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+                        )}
+                        {draftPath.length > 0 && (
+                            <polygon points={draftPoints} className={draftClass} strokeWidth={2} strokeDasharray="4 3" vectorEffect="non-scaling-stroke" />
+                        )}
+                    </svg>
+                )}
+
+                {/* 5. Brush Cursor (positioned directly via ref) */}
+                {isPainting && !isComparing && (
+                    <div
+                        ref={cursorRef}
+                        className="absolute pointer-events-none border border-white rounded-full -translate-x-1/2 -translate-y-1/2 z-20 mix-blend-difference"
+                        style={{ width: editor.brushSize, height: editor.brushSize }}
+                    />
+                )}
+
+                {/* 6. Before/After Slider */}
+                {compareImageUrl && (
+                    <>
+                        <img
+                            src={compareImageUrl}
+                            alt="Before"
+                            className="absolute inset-0 w-full h-full pointer-events-none"
+                            style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+                            draggable={false}
+                        />
+                        <span className="absolute top-2 left-2 text-[10px] font-bold uppercase bg-black/60 text-zinc-200 px-1.5 py-0.5 rounded pointer-events-none">Before</span>
+                        <span className="absolute top-2 right-2 text-[10px] font-bold uppercase bg-black/60 text-zinc-200 px-1.5 py-0.5 rounded pointer-events-none">After</span>
+                        <div
+                            className="absolute top-0 bottom-0 w-4 -ml-2 z-10 flex justify-center cursor-ew-resize"
+                            style={{ left: `${split}%` }}
+                            onMouseDown={handleSplitDrag}
+                        >
+                            <div className="w-0.5 h-full bg-white shadow" />
+                            <div className="absolute top-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-white shadow-lg flex items-center justify-center">
+                                <ChevronsLeftRight className="w-4 h-4 text-zinc-900" />
+                            </div>
+                        </div>
+                    </>
+                )}
+
+                {/* Mouse Capture Layer */}
+                {!isComparing && (
+                    <div
+                        className={`absolute inset-0 z-10 ${cursorClass}`}
+                        onMouseDown={handleMouseDown}
+                        onMouseMove={handleMouseMove}
+                        onMouseUp={handleMouseUp}
+                        onMouseLeave={handleMouseUp}
+                        onDoubleClick={handleDoubleClick}
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
+
+const TOOLS: { tool: MaskTool; icon: React.ElementType; title: string }[] = [
+    { tool: 'select', icon: MousePointer2, title: 'Selection Box (V) - Shift to add, Alt to subtract' },
+    { tool: 'lasso', icon: Lasso, title: 'Lasso (L) - Shift to add, Alt to subtract' },
+    { tool: 'polygon', icon: Pentagon, title: 'Polygon (P) - click points, double-click or Enter to close' },
+    { tool: 'wand', icon: Wand, title: 'Magic Wand (W) - selects similar connected colours' },
+    { tool: 'brush', icon: Brush, title: 'Mask Brush (B)' },
+    { tool: 'eraser', icon: Eraser, title: 'Mask Eraser (E)' },
+    { tool: 'pan', icon: Hand, title: 'Pan (H, or hold Space)' },
+];
+
+interface MaskToolbarProps {
+    editor: MaskEditor;
+    className?: string;
+    maskVisible?: boolean;
+    onToggleMask?: () => void;
+}
+
+/**
+ * Vertical tool column: tools, history, brush settings, feathering and clear
+ */
+export const MaskToolbar: React.FC<MaskToolbarProps> = ({ editor, className = '', maskVisible = true, onToggleMask }) => {
+    const { tool } = editor;
+
+    return (
+        <div className={`w-16 flex flex-col items-center py-4 gap-3 shrink-0 overflow-y-auto ${className}`}>
+            {TOOLS.map(({ tool: t, icon: Icon, title }) => (
+                <button
+                    key={t}
+                    onClick={() => editor.setTool(t)}
+                    className={`p-3 rounded-xl transition-all ${tool === t ? `${t === 'pan' ? 'bg-blue-600' : 'bg-purple-600'} text-white shadow-lg` : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                    title={title}
+                >
+                    <Icon className="w-5 h-5" />
+                </button>
+            ))}
+
+            <div className="h-px w-8 bg-zinc-800 my-1"></div>
+
+            <div className="flex gap-1">
+                <button onClick={editor.undo} disabled={!editor.canUndo} className="p-1.5 rounded-lg text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent" title="Undo (Ctrl+Z)">
+                    <Undo2 className="w-4 h-4" />
+                </button>
+                <button onClick={editor.redo} disabled={!editor.canRedo} className="p-1.5 rounded-lg text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent" title="Redo (Ctrl+Shift+Z)">
+                    <Redo2 className="w-4 h-4" />
+                </button>
+            </div>
+
+            {/* Mask Visibility Toggle */}
+            {onToggleMask && (
+                <button
+                    onClick={onToggleMask}
+                    className={`p-3 rounded-xl transition-all ${maskVisible ? 'text-purple-400 bg-purple-500/10' : 'text-zinc-600 hover:text-zinc-400'}`}
+                    title={maskVisible ? "Hide Mask" : "Show Mask"}
+                >
+                    <Layers className="w-5 h-5" />
+                </button>
+            )}
+
+            <div className="h-px w-8 bg-zinc-800 my-1"></div>
+
+            {/* Color Picker (Only for Brush) */}
+            {tool === 'brush' && (
+                <div className="relative group animate-in fade-in">
+                    <div
+                        className="w-8 h-8 rounded-full border border-zinc-700 cursor-pointer flex items-center justify-center shadow-sm"
+                        style={{ backgroundColor: editor.brushColor }}
+                        title="Change Color"
+                    >
+                        <Palette className="w-4 h-4 text-white mix-blend-difference" />
+                    </div>
+                    <input
+                        type="color"
+                        value={editor.brushColor}
+                        onChange={e => editor.setBrushColor(e.target.value)}
+                        className="absolute inset-0 opacity-0 cursor-pointer"
+                    />
+                </div>
+            )}
+
+            {/* Wand Tolerance */}
+            {tool === 'wand' && (
+                <div className="flex flex-col items-center gap-2 h-28 animate-in fade-in" title="Tolerance: how different a colour may be and still be selected">
+                    <span className="text-[10px] text-zinc-500 font-bold">{editor.wandTolerance}</span>
+                    <input
+                        type="range"
+                        min="0"
+                        max={MAX_TOLERANCE}
+                        value={editor.wandTolerance}
+                        onChange={e => editor.setWandTolerance(Number(e.target.value))}
+                        className="h-full w-1 bg-zinc-700 rounded-full appearance-none cursor-pointer vertical-slider"
+                        style={{ writingMode: 'vertical-lr', direction: 'rtl' }}
+                    />
+                </div>
+            )}
+
+            {/* Brush Size */}
+            {(tool === 'brush' || tool === 'eraser') && (
+                <div className="flex flex-col items-center gap-2 h-28 animate-in fade-in" title="Brush Size ([ / ])">
+                    <span className="text-[10px] text-zinc-500 font-bold">{editor.brushSize}</span>
+                    <input
+                        type="range"
+                        min={MIN_BRUSH}
+                        max={MAX_BRUSH}
+                        value={editor.brushSize}
+                        onChange={e => editor.setBrushSize(Number(e.target.value))}
+                        className="h-full w-1 bg-zinc-700 rounded-full appearance-none cursor-pointer vertical-slider"
+                        style={{ writingMode: 'vertical-lr', direction: 'rtl' }}
+                    />
+                </div>
+            )}
+
+            {/* Feathering of the paste-back edge */}
+            <div className="flex flex-col items-center gap-2 h-28" title="Feather: soft edge around the mask (image pixels)">
+                <Feather className="w-3 h-3 text-zinc-500" />
+                <input
+                    type="range"
+                    min="0"
+                    max={MAX_FEATHER}
+                    value={editor.feather}
+                    onChange={e => editor.setFeather(Number(e.target.value))}
+                    className="h-full w-1 bg-zinc-700 rounded-full appearance-none cursor-pointer vertical-slider"
+                    style={{ writingMode: 'vertical-lr', direction: 'rtl' }}
+                />
+                <span className="text-[10px] text-zinc-500 font-bold">{editor.feather}</span>
+            </div>
+
+            <div className="mt-auto">
+                <button onClick={editor.clear} className="p-2 text-red-400 hover:bg-red-900/20 rounded-lg" title="Clear Mask">
+                    <X className="w-5 h-5" />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export const MaskShortcuts: React.FC<{ className?: string }> = ({ className = '' }) => (
+    <div className={`text-[10px] text-zinc-500 bg-zinc-950 p-2 rounded-lg border border-zinc-800 grid grid-cols-2 gap-x-2 gap-y-1 ${className}`}>
+        {MASK_SHORTCUTS.map(([keys, label]) => (
+            <React.Fragment key={keys}>
+                <span>{keys}</span> <span className="text-right text-zinc-400">{label}</span>
+            </React.Fragment>
+        ))}
+    </div>
+);
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { MIN_PASSWORD_LENGTH } from '../services/password';
+import { Loader2, KeyRound, Lock } from 'lucide-react';
+
+interface PasswordChangeViewProps {
+    title: string;
+    subtitle: string;
+    onSubmit: (newPassword: string) => Promise<void>;
+    onCancel: () => void;
+    unavailable?: string; // Why the password cannot be set here: shown instead of the form
+}
+
+/**
+ * Choose a new password: used after login with a temporary password and when opening a reset link.
+ */
+export const PasswordChangeView: React.FC<PasswordChangeViewProps> = ({ title, subtitle, onSubmit, onCancel, unavailable }) => {
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+
+        if (password.length < MIN_PASSWORD_LENGTH) {
+            setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+            return;
+        }
+        if (password !== confirmPassword) {
+            setError('Passwords do not match');
+            return;
+        }
+
+        setLoading(true);
+        try {
+            await onSubmit(password);
+        } catch (err: any) {
+            setError(err.message || 'An error occurred');
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-zinc-950 p-4">
+            <div className="w-full max-w-md bg-zinc-900 border border-zinc-800 rounded-2xl p-8 shadow-2xl relative overflow-hidden">
+
+                {/* Decoration */}
+                <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-purple-600 via-pink-500 to-purple-600"></div>
+                <div className="absolute -top-24 -right-24 w-48 h-48 bg-purple-500/20 rounded-full blur-3xl"></div>
+
+                <div className="flex flex-col items-center mb-8 relative z-10">
+                    <div className="w-12 h-12 bg-zinc-800 rounded-xl flex items-center justify-center border border-zinc-700 shadow-lg mb-4">
+                       <KeyRound className="w-6 h-6 text-purple-400" />
+                    </div>
+                    <h1 className="text-2xl font-bold text-zinc-100">{title}</h1>
+                    <p className="text-zinc-500 text-sm mt-1 text-center">{subtitle}</p>
+                </div>
+
+                {unavailable ? (
+                <div className="space-y-4 relative z-10">
+                    <div className="text-red-400 text-sm bg-red-900/10 border border-red-900/50 p-3 rounded-lg text-center">
+                        {unavailable}
+                    </div>
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        className="w-full text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+                    >
+                        Back to sign in
+                    </button>
+                </div>
+                ) : (
+                <form onSubmit={handleSubmit} className="space-y-4 relative z-10">
+                    <div className="space-y-2">
+                        <label className="text-xs font-medium text-zinc-400 uppercase tracking-wide">New Password</label>
+                        <div className="relative">
+                            <Lock className="absolute left-3 top-3 w-5 h-5 text-zinc-600" />
+                            <input
+                                type="password"
+                                value={password}
+                                onChange={e => setPassword(e.target.value)}
+                                className="w-full bg-zinc-950 border border-zinc-700 rounded-xl pl-10 pr-4 py-3 text-zinc-200 outline-none focus:ring-2 focus:ring-purple-500 transition-all placeholder:text-zinc-700"
+                                placeholder="••••••••"
+                                autoFocus
+                                required
+                            />
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="text-xs font-medium text-zinc-400 uppercase tracking-wide">Confirm Password</label>
+                        <div className="relative">
+                            <Lock className="absolute left-3 top-3 w-5 h-5 text-zinc-600" />
+                            <input
+                                type="password"
+                                value={confirmPassword}
+                                onChange={e => setConfirmPassword(e.target.value)}
+                                className="w-full bg-zinc-950 border border-zinc-700 rounded-xl pl-10 pr-4 py-3 text-zinc-200 outline-none focus:ring-2 focus:ring-purple-500 transition-all placeholder:text-zinc-700"
+                                placeholder="••••••••"
+                                required
+                            />
+                        </div>
+                    </div>
+
+                    {error && (
+                        <div className="text-red-400 text-sm bg-red-900/10 border border-red-900/50 p-3 rounded-lg text-center">
+                            {error}
+                        </div>
+                    )}
+
+                    <button
+                        type="submit"
+                        disabled={loading}
+                        className="w-full bg-purple-600 hover:bg-purple-500 text-white font-bold py-3.5 rounded-xl transition-all flex items-center justify-center gap-2 shadow-lg shadow-purple-900/20"
+                    >
+                        {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : "Save Password"}
+                    </button>
+
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        className="w-full text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+                    >
+                        Back to sign in
+                    </button>
+                </form>
+                )}
+            </div>
+        </div>
+    );
+}
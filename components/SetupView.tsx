@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import { createUser, getAppConfig } from '../services/db';
+import { MIN_PASSWORD_LENGTH } from '../services/password';
+import { User } from '../types';
+import { Loader2, Layout, Lock, Mail, ShieldCheck, User as UserIcon } from 'lucide-react';
+
+interface SetupViewProps {
+    onComplete: (user: User) => Promise<void>;
+}
+
+/**
+ * First run: no account exists yet, so the visitor creates the first administrator.
+ */
+export const SetupView: React.FC<SetupViewProps> = ({ onComplete }) => {
+    const [name, setName] = useState('');
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [appName, setAppName] = useState('DPR AI Studio');
+
+    useEffect(() => {
+        setAppName(getAppConfig().appName);
+    }, []);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+
+        if (password.length < MIN_PASSWORD_LENGTH) {
+            setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+            return;
+        }
+        if (password !== confirmPassword) {
+            setError('Passwords do not match');
+            return;
+        }
+
+        setLoading(true);
+        try {
+            const admin = await createUser({
+                id: crypto.randomUUID(),
+                name,
+                email,
+                role: 'admin'
+            }, password);
+            await onComplete(admin);
+        } catch (err: any) {
+            setError(err.message || 'An error occurred');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-zinc-950 p-4">
+            <div className="w-full max-w-md bg-zinc-900 border border-zinc-800 rounded-2xl p-8 shadow-2xl relative overflow-hidden">
+
+                {/* Decoration */}
+                <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-purple-600 via-pink-500 to-purple-600"></div>
+                <div className="absolute -top-24 -right-24 w-48 h-48 bg-purple-500/20 rounded-full blur-3xl"></div>
+
+                <div className="flex flex-col items-center mb-8 relative z-10">
+                    <div className="w-12 h-12 bg-zinc-800 rounded-xl flex items-center justify-center border border-zinc-700 shadow-lg mb-4">
+                       <Layout className="w-6 h-6 text-purple-400" />
+                    </div>
+                    <h1 className="text-2xl font-bold text-zinc-100">Set Up {appName}</h1>
+                    <p className="text-zinc-500 text-sm mt-1 text-center">Create the administrator account. You can invite your team from the Admin tab afterwards.</p>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4 relative z-10">
+                    <div className="space-y-2">
+                        <label className="text-xs font-medium text-zinc-400 uppercase tracking-wide">Full Name</label>
+                        <div className="relative">
+                            <UserIcon className="absolute left-3 top-3 w-5 h-5 text-zinc-600" />
+                            <input
+                                type="text"
+                                value={name}
+                                onChange={e => setName(e.target.value)}
+                                className="w-full bg-zinc-950 border border-zinc-700 rounded-xl pl-10 pr-4 py-3 text-zinc-200 outline-none focus:ring-2 focus:ring-purple-500 transition-all placeholder:text-zinc-700"
+                                placeholder="John Doe"
+                                required
+                            />
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="text-xs font-medium text-zinc-400 uppercase tracking-wide">Email Address</label>
+                        <div className="relative">
+                            <Mail className="absolute left-3 top-3 w-5 h-5 text-zinc-600" />
+                            <input
+                                type="email"
+                                value={email}
+                                onChange={e => setEmail(e.target.value)}
+                                className="w-full bg-zinc-950 border border-zinc-700 rounded-xl pl-10 pr-4 py-3 text-zinc-200 outline-none focus:ring-2 focus:ring-purple-500 transition-all placeholder:text-zinc-700"
+                                placeholder="name@company.com"
+                                required
+                            />
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="text-xs font-medium text-zinc-400 uppercase tracking-wide">Password</label>
+                        <div className="relative">
+                            <Lock className="absolute left-3 top-3 w-5 h-5 text-zinc-600" />
+                            <input
+                                type="password"
+                                value={password}
+                                onChange={e => setPassword(e.target.value)}
+                                className="w-full bg-zinc-950 border border-zinc-700 rounded-xl pl-10 pr-4 py-3 text-zinc-200 outline-none focus:ring-2 focus:ring-purple-500 transition-all placeholder:text-zinc-700"
+                                placeholder="••••••••"
+                                required
+                            />
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="text-xs font-medium text-zinc-400 uppercase tracking-wide">Confirm Password</label>
+                        <div className="relative">
+                            <Lock className="absolute left-3 top-3 w-5 h-5 text-zinc-600" />
+                            <input
+                                type="password"
+                                value={confirmPassword}
+                                onChange={e => setConfirmPassword(e.target.value)}
+                                className="w-full bg-zinc-950 border border-zinc-700 rounded-xl pl-10 pr-4 py-3 text-zinc-200 outline-none focus:ring-2 focus:ring-purple-500 transition-all placeholder:text-zinc-700"
+                                placeholder="••••••••"
+                                required
+                            />
+                        </div>
+                    </div>
+
+                    {error && (
+                        <div className="text-red-400 text-sm bg-red-900/10 border border-red-900/50 p-3 rounded-lg text-center">
+                            {error}
+                        </div>
+                    )}
+
+                    <button
+                        type="submit"
+                        disabled={loading}
+                        className="w-full bg-purple-600 hover:bg-purple-500 text-white font-bold py-3.5 rounded-xl transition-all flex items-center justify-center gap-2 shadow-lg shadow-purple-900/20"
+                    >
+                        {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : <><ShieldCheck className="w-5 h-5" /> Create Admin Account</>}
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { getImageBlob, getThumbnailBlob, isImageId } from '../services/db';
+
+/**
+ * Displayable URL for an image ref (see services/db.ts). Stored images get an object URL
+ * that lives as long as the component using it: it is revoked on unmount or when the ref changes.
+ * With thumbnail, stored images come as their small preview (see services/thumbnails.ts).
+ * Data URLs are returned as is.
+ */
+export const useImageUrl = (ref: string | null | undefined, thumbnail: boolean = false): string | null => {
+    const [url, setUrl] = useState<string | null>(ref && !isImageId(ref) ? ref : null);
+
+    useEffect(() => {
+        if (!ref || !isImageId(ref)) {
+            setUrl(ref || null);
+            return;
+        }
+        let objectUrl: string | null = null;
+        let cancelled = false;
+        setUrl(null);
+        (thumbnail ? getThumbnailBlob(ref) : getImageBlob(ref)).then(blob => {
+            if (cancelled || !blob) return;
+            objectUrl = URL.createObjectURL(blob);
+            setUrl(objectUrl);
+        }).catch(e => console.error("Failed to load image", e));
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [ref, thumbnail]);
+
+    return url;
+};
+
+type StoredImageProps = Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> & { image: string; thumbnail?: boolean };
+
+/**
+ * <img> for an image ref. Grids and tables pass thumbnail.
+ */
+export const StoredImage: React.FC<StoredImageProps> = ({ image, thumbnail = false, ...props }) => {
+    const url = useImageUrl(image, thumbnail);
+    return url ? <img src={url} {...props} /> : <div className={`${props.className || ''} bg-zinc-900 animate-pulse`} />;
+};
+
+/**
+ * Object URL for a Blob or File still in memory (uploads), revoked on unmount or when the blob changes
+ */
+export const useObjectUrl = (blob: Blob | null | undefined): string | null => {
+    const [url, setUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!blob) {
+            setUrl(null);
+            return;
+        }
+        const objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+        return () => URL.revokeObjectURL(objectUrl);
+    }, [blob]);
+
+    return url;
+};
+
+type BlobImageProps = Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> & { blob: Blob };
+
+/**
+ * <img> for an uploaded file: one object URL per file, not one per render
+ */
+export const BlobImage: React.FC<BlobImageProps> = ({ blob, ...props }) => {
+    const url = useObjectUrl(blob);
+    return url ? <img src={url} {...props} /> : null;
+};
+
+/**
+ * Save an image ref to disk
+ */
+export const downloadImage = async (ref: string, fileName: string) => {
+    const blob = isImageId(ref) ? await getImageBlob(ref) : null;
+    const url = blob ? URL.createObjectURL(blob) : ref;
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    if (blob) setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * Show the full image of a ref in a new tab
+ */
+export const openImage = async (ref: string) => {
+    const blob = isImageId(ref) ? await getImageBlob(ref) : null;
+    const url = blob ? URL.createObjectURL(blob) : ref;
+    window.open(url, '_blank', 'noreferrer');
+    // Long enough for the tab to load it
+    if (blob) setTimeout(() => URL.revokeObjectURL(url), 60000);
+};
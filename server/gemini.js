@@ -0,0 +1,226 @@
+import { GoogleGenAI } from '@google/genai';
+
+// Models
+const MODEL_GENERATE = 'gemini-3-pro-image-preview'; // Nano banana pro
+const MODEL_EDIT = 'gemini-2.5-flash-image'; // Nano banana / Flash Image
+
+// finishReason / blockReason values meaning the content was filtered
+const SAFETY_REASONS = new Set([
+  'SAFETY',
+  'BLOCKLIST',
+  'PROHIBITED_CONTENT',
+  'SPII',
+  'IMAGE_SAFETY',
+  'IMAGE_PROHIBITED_CONTENT',
+  'MODEL_ARMOR',
+  'JAILBREAK',
+]);
+
+/**
+ * Failure sent back to the browser as { error, code, reason, text } (see services/errors.ts for the codes).
+ * text is what the model wrote instead of an image, if anything.
+ */
+class GeminiError extends Error {
+  constructor(code, message, status, reason, text) {
+    super(message);
+    this.name = 'GeminiError';
+    this.code = code;
+    this.status = status;
+    this.reason = reason;
+    this.text = text;
+  }
+}
+
+/**
+ * SDK errors (ApiError carries the HTTP status) -> typed error when we know what happened
+ */
+const classifyApiError = (err) => {
+  const message = String(err?.message || '');
+  if (err?.status === 429 || message.includes('RESOURCE_EXHAUSTED')) {
+    return new GeminiError('QUOTA_EXCEEDED', message, 429);
+  }
+  if (err?.status === 401 || err?.status === 403 || /API key/i.test(message)) {
+    return new GeminiError('INVALID_API_KEY', message, 401);
+  }
+  if (err?.status === 504 || message.includes('DEADLINE_EXCEEDED')) {
+    return new GeminiError('TIMEOUT', message, 504);
+  }
+  return err;
+};
+
+/**
+ * The key only ever lives in the server environment.
+ * GEMINI_API_BASE_URL lets us point the client at a local stub of the Gemini endpoint.
+ */
+function getClient() {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new GeminiError('INVALID_API_KEY', 'GEMINI_API_KEY is not configured on the server', 401);
+  }
+  const baseUrl = process.env.GEMINI_API_BASE_URL;
+  return new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+}
+
+/**
+ * { data, mimeType } sent by the browser -> Gemini inline part
+ */
+const toPart = (image) => ({
+  inlineData: {
+    data: image.data,
+    mimeType: image.mimeType,
+  },
+});
+
+/**
+ * Inpainting mask: black & white image the size of the source, white = the only area the model may change.
+ * Sent right after the source so the model can line both up.
+ */
+const MASK_INSTRUCTION = 'The next image is an inpainting mask for the previous image. Only modify the areas that are white in the mask; everything under the black areas must stay exactly as it is.';
+
+const toMaskParts = (mask) => (mask ? [{ text: MASK_INSTRUCTION }, toPart(mask)] : []);
+
+/**
+ * Collect every inline image of a response as data URLs, and the text the model wrote
+ * alongside them (what it did, or why it refused). Thought summaries are left out.
+ */
+const extractParts = (resp) => {
+  const images = [];
+  const texts = [];
+  for (const part of resp.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData) {
+      images.push(`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`);
+    } else if (part.text && !part.thought) {
+      texts.push(part.text.trim());
+    }
+  }
+  const text = texts.filter(Boolean).join('\n\n');
+  return { images, text: text || undefined };
+};
+
+/**
+ * Call the model and return the images and text of its response. A response without any image
+ * is an error: the prompt was blocked (promptFeedback), filtered (finishReason) or just text.
+ * The text goes along with the error: it usually says why.
+ * signal aborts the call when the browser goes away (cancelled job): Gemini still bills what it already started,
+ * the browser records that cost (see generateImages in services/gemini.ts).
+ */
+const generateContent = async (ai, params, signal) => {
+  let response;
+  try {
+    response = await ai.models.generateContent({ ...params, config: { ...params.config, abortSignal: signal } });
+  } catch (err) {
+    throw classifyApiError(err);
+  }
+
+  const { images, text } = extractParts(response);
+  if (images.length > 0) return { images, text };
+
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new GeminiError('SAFETY_BLOCKED', `Prompt blocked: ${blockReason}`, 422, blockReason, text);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (SAFETY_REASONS.has(finishReason)) {
+    throw new GeminiError('SAFETY_BLOCKED', `Response blocked: ${finishReason}`, 422, finishReason, text);
+  }
+  throw new GeminiError('NO_IMAGE', `No image in the response${finishReason ? `: ${finishReason}` : ''}`, 422, finishReason, text);
+};
+
+/**
+ * Generate one variation. The browser sends one request per variation (see generateImages
+ * in services/gemini.ts), which is also the most reliable way to get distinct variations from this model.
+ */
+export async function generateImages({ prompt, systemInstruction, referenceImages = [], aspectRatio, resolution }, signal) {
+  const ai = getClient();
+
+  const parts = referenceImages.map(toPart);
+  parts.push({ text: prompt });
+
+  const config = {
+    systemInstruction: systemInstruction ? systemInstruction : undefined,
+    imageConfig: {
+      aspectRatio: aspectRatio,
+      imageSize: resolution,
+    },
+  };
+
+  return generateContent(ai, { model: MODEL_GENERATE, contents: { parts }, config }, signal);
+}
+
+/**
+ * Refine a generated image using the Pro model (Chat flow)
+ */
+export async function refineImage({ prompt, image, mask, systemInstruction, referenceImage, aspectRatio, resolution }, signal) {
+  const ai = getClient();
+
+  const parts = [toPart(image), ...toMaskParts(mask)];
+  if (referenceImage) {
+    parts.push(toPart(referenceImage));
+  }
+  parts.push({ text: prompt });
+
+  const config = {
+    systemInstruction: systemInstruction ? systemInstruction : undefined,
+    imageConfig: {},
+  };
+
+  if (aspectRatio) config.imageConfig.aspectRatio = aspectRatio;
+  if (resolution) config.imageConfig.imageSize = resolution;
+
+  const { images, text } = await generateContent(ai, {
+    model: MODEL_GENERATE,
+    contents: { parts },
+    config,
+  }, signal);
+
+  return { image: images[0], text };
+}
+
+/**
+ * Edit an image (Flash Image model)
+ */
+export async function editImage({ prompt, sourceImage, mask, referenceImage }, signal) {
+  const ai = getClient();
+
+  const parts = [toPart(sourceImage), ...toMaskParts(mask)];
+  if (referenceImage) {
+    parts.push(toPart(referenceImage));
+  }
+  parts.push({ text: prompt });
+
+  const { images, text } = await generateContent(ai, {
+    model: MODEL_EDIT,
+    contents: { parts },
+  }, signal);
+
+  return { image: images[0], text };
+}
+
+/**
+ * Generate a new view of an image based on rotation/tilt/zoom parameters
+ */
+export async function generateAngleVariation({ sourceImage, rotation, tilt, zoom, aspectRatio, resolution, userPrompt }, signal) {
+  const ai = getClient();
+
+  // Construct a prompt that describes the desired camera movement
+  const baseAnglePrompt = `Regenerate this image as if the camera has moved. 
+  Camera Rotation: ${rotation} degrees (where 0 is front, positive is rotating right).
+  Camera Tilt: ${tilt} degrees (positive is looking down/bird's eye, negative is looking up).
+  Zoom Level: ${zoom}.
+  Maintain the exact same subject, lighting, and style. Only change the perspective.`;
+
+  const fullPrompt = userPrompt ? `${userPrompt}. ${baseAnglePrompt}` : baseAnglePrompt;
+
+  const { images, text } = await generateContent(ai, {
+    model: MODEL_GENERATE, // Use Pro for high fidelity 3D-like rotations
+    contents: { parts: [toPart(sourceImage), { text: fullPrompt }] },
+    config: {
+      imageConfig: {
+        aspectRatio: aspectRatio,
+        imageSize: resolution,
+      },
+    },
+  }, signal);
+
+  return { image: images[0], text };
+}
@@ -0,0 +1,68 @@
+import http from 'node:http';
+import { pathToFileURL } from 'node:url';
+
+const SLOW_ANSWER_MS = 3000;
+
+// 1x1 transparent PNG: enough for the browser and the proxy to treat the answer as an image
+const STUB_IMAGE = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+/**
+ * Local stand-in for the Gemini generateContent endpoint, for the proxy tests and offline runs of
+ * server/index.js (GEMINI_API_BASE_URL=http://localhost:<port>). Answers one image and a line of text,
+ * or the refusal the prompt asks for: a prompt containing "STUB_BLOCK" is blocked, "STUB_TEXT" gets text only,
+ * "STUB_SLOW" is answered after a few seconds. Every request is kept in `requests` so tests can check
+ * what the proxy sent, and whether it hung up before the answer (`aborted`).
+ */
+export const createGeminiStub = () => {
+  const requests = [];
+  const server = http.createServer((req, res) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      const match = /\/models\/([^/:]+):generateContent$/.exec(new URL(req.url || '/', 'http://localhost').pathname);
+      if (req.method !== 'POST' || !match) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { code: 404, message: 'Not found', status: 'NOT_FOUND' } }));
+        return;
+      }
+
+      const body = JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}');
+      const request = { model: match[1], apiKey: req.headers['x-goog-api-key'], body, aborted: false };
+      requests.push(request);
+      res.on('close', () => {
+        if (!res.writableFinished) request.aborted = true;
+      });
+      const prompt = (body.contents || []).flatMap((content) => content.parts || []).map((part) => part.text || '').join(' ');
+
+      let response;
+      if (prompt.includes('STUB_BLOCK')) {
+        response = { promptFeedback: { blockReason: 'SAFETY' } };
+      } else if (prompt.includes('STUB_TEXT')) {
+        response = { candidates: [{ finishReason: 'STOP', content: { role: 'model', parts: [{ text: 'No image this time.' }] } }] };
+      } else {
+        response = {
+          candidates: [{
+            finishReason: 'STOP',
+            content: { role: 'model', parts: [{ text: `Stub image from ${match[1]}` }, { inlineData: { mimeType: 'image/png', data: STUB_IMAGE } }] },
+          }],
+        };
+      }
+      const answer = () => {
+        if (res.destroyed) return;
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(response));
+      };
+      if (prompt.includes('STUB_SLOW')) setTimeout(answer, SLOW_ANSWER_MS);
+      else answer();
+    });
+  });
+  return { server, requests };
+};
+
+// node server/geminiStub.js [port]
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.argv[2]) || 9000;
+  createGeminiStub().server.listen(port, () => {
+    console.log(`Gemini stub listening on http://localhost:${port}`);
+  });
+}
@@ -0,0 +1,206 @@
+import http from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { generateImages, refineImage, editImage, generateAngleVariation } from './gemini.js';
+
+// Local dev: pick up GEMINI_API_KEY from .env.local (Cloud Run injects it as a plain env var)
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No local env file
+}
+
+const PORT = Number(process.env.PORT) || 8080;
+const DIST_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../dist');
+const MAX_BODY_BYTES = 50 * 1024 * 1024; // A few 4K references as base64
+
+// Every /api call must carry the shared access key (X-Studio-Key), set in Admin > Settings of the studio
+const ACCESS_KEY_HEADER = 'x-studio-key';
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const DEFAULT_RATE_LIMIT = 60; // API calls per client and per minute
+
+const MIME_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+};
+
+// POST /api/<name> -> handler(body)
+const API_ROUTES = {
+  generate: generateImages,
+  refine: refineImage,
+  edit: editImage,
+  angle: generateAngleVariation,
+};
+
+const sendJson = (res, status, payload) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(payload));
+};
+
+const readJsonBody = (req) => {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(Object.assign(new Error('Request body too large'), { status: 413 }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}'));
+      } catch {
+        reject(Object.assign(new Error('Invalid JSON body'), { status: 400 }));
+      }
+    });
+    req.on('error', reject);
+  });
+};
+
+/**
+ * Constant-time comparison of the key sent by the browser with STUDIO_ACCESS_KEY.
+ * Without a configured key the proxy refuses everything rather than spend the API key for anyone.
+ */
+const checkAccessKey = (req) => {
+  const expected = process.env.STUDIO_ACCESS_KEY;
+  if (!expected) {
+    return { status: 503, error: 'STUDIO_ACCESS_KEY is not configured on the server' };
+  }
+  const given = Buffer.from(String(req.headers[ACCESS_KEY_HEADER] || ''));
+  const wanted = Buffer.from(expected);
+  if (given.length !== wanted.length || !timingSafeEqual(given, wanted)) {
+    return { status: 401, error: 'Missing or invalid studio access key', code: 'ACCESS_DENIED' };
+  }
+  return null;
+};
+
+/**
+ * Address the rate limit counts calls by. Each proxy appends the address it got the request from to
+ * X-Forwarded-For, anything before comes from the client: behind `trustedProxies` proxies (1 on Cloud Run)
+ * the client is that many entries from the end. Otherwise it is the socket address.
+ */
+const clientAddress = (req, trustedProxies) => {
+  const forwarded = String(req.headers['x-forwarded-for'] || '').split(',').map((entry) => entry.trim()).filter(Boolean);
+  if (trustedProxies > 0 && forwarded.length >= trustedProxies) return forwarded[forwarded.length - trustedProxies];
+  return req.socket.remoteAddress || 'unknown';
+};
+
+/**
+ * Fixed-window limiter per client address: at most `limit` calls per minute
+ */
+const createRateLimiter = (limit) => {
+  const windows = new Map();
+  return (client) => {
+    const now = Date.now();
+    const current = windows.get(client);
+    if (!current || now - current.startedAt >= RATE_LIMIT_WINDOW_MS) {
+      // Drop finished windows so the map does not grow with every client ever seen
+      for (const [key, window] of windows) {
+        if (now - window.startedAt >= RATE_LIMIT_WINDOW_MS) windows.delete(key);
+      }
+      windows.set(client, { startedAt: now, count: 1 });
+      return true;
+    }
+    current.count += 1;
+    return current.count <= limit;
+  };
+};
+
+const handleApi = async (req, res, route, allowCall, trustedProxies) => {
+  const handler = API_ROUTES[route];
+  if (!handler) return sendJson(res, 404, { error: 'Unknown endpoint' });
+  if (req.method !== 'POST') return sendJson(res, 405, { error: 'Method not allowed' });
+
+  const denied = checkAccessKey(req);
+  if (denied) return sendJson(res, denied.status, { error: denied.error, code: denied.code });
+  if (!allowCall(clientAddress(req, trustedProxies))) {
+    return sendJson(res, 429, { error: 'Too many requests to the studio server, wait a minute before trying again' });
+  }
+
+  // The browser went away (cancelled job, closed tab): stop waiting on Gemini
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    const body = await readJsonBody(req);
+    sendJson(res, 200, await handler(body, controller.signal));
+  } catch (err) {
+    if (controller.signal.aborted) return;
+    console.error(`/api/${route} failed:`, err);
+    sendJson(res, err.status || 502, { error: err.message || 'Gemini request failed', code: err.code, reason: err.reason, text: err.text });
+  }
+};
+
+const serveStatic = async (req, res, pathname) => {
+  let decoded;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    res.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end('Bad request');
+    return;
+  }
+
+  // Resolve inside dist/ only, fall back to index.html for client-side routes
+  const filePath = path.join(DIST_DIR, path.normalize(decoded));
+  const target = filePath.startsWith(DIST_DIR) && path.extname(filePath) ? filePath : path.join(DIST_DIR, 'index.html');
+
+  try {
+    const content = await readFile(target);
+    res.writeHead(200, { 'Content-Type': MIME_TYPES[path.extname(target)] || 'application/octet-stream' });
+    res.end(content);
+  } catch {
+    res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end('Not found');
+  }
+};
+
+const failRequest = (res, err) => {
+  console.error('Request failed:', err);
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+  sendJson(res, 500, { error: 'Internal server error' });
+};
+
+/**
+ * Static app + Gemini proxy. Exported so tests can run it against a stub of the Gemini endpoint.
+ */
+export const createStudioServer = ({
+  rateLimit = Number(process.env.STUDIO_RATE_LIMIT) || DEFAULT_RATE_LIMIT,
+  trustedProxies = Number(process.env.STUDIO_TRUSTED_PROXIES) || 0,
+} = {}) => {
+  const allowCall = createRateLimiter(rateLimit);
+  return http.createServer((req, res) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    const handled = pathname.startsWith('/api/')
+      ? handleApi(req, res, pathname.slice('/api/'.length), allowCall, trustedProxies)
+      : serveStatic(req, res, pathname);
+    handled.catch((err) => failRequest(res, err));
+  });
+};
+
+// Started directly (npm run server / start), not imported
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  createStudioServer().listen(PORT, '0.0.0.0', () => {
+    console.log(`DPR AI Studio listening on http://0.0.0.0:${PORT}`);
+  });
+}
@@ -0,0 +1,120 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createGeminiStub } from './geminiStub.js';
+import { createStudioServer } from './index.js';
+
+const ACCESS_KEY = 'test-access-key';
+
+const listen = (server) => new Promise((resolve) => {
+  server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${server.address().port}`));
+});
+
+const close = (server) => new Promise((resolve) => server.close(resolve));
+
+describe('studio server', () => {
+  const stub = createGeminiStub();
+  const studio = createStudioServer({ rateLimit: 5 });
+  let baseUrl;
+
+  before(async () => {
+    process.env.GEMINI_API_KEY = 'stub-api-key';
+    process.env.GEMINI_API_BASE_URL = await listen(stub.server);
+    process.env.STUDIO_ACCESS_KEY = ACCESS_KEY;
+    baseUrl = await listen(studio);
+  });
+
+  after(async () => {
+    await close(studio);
+    await close(stub.server);
+  });
+
+  const callApi = (route, body, key = ACCESS_KEY) => fetch(`${baseUrl}/api/${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(key ? { 'X-Studio-Key': key } : {}) },
+    body: JSON.stringify(body),
+  });
+
+  test('proxies generate to Gemini with the server key', async () => {
+    const response = await callApi('generate', { prompt: 'a red chair', referenceImages: [], aspectRatio: '1:1', resolution: '1K' });
+    assert.equal(response.status, 200);
+    const body = await response.json();
+    assert.equal(body.images.length, 1);
+    assert.match(body.images[0], /^data:image\/png;base64,/);
+    assert.equal(body.text, 'Stub image from gemini-3-pro-image-preview');
+
+    const sent = stub.requests.at(-1);
+    assert.equal(sent.apiKey, 'stub-api-key');
+    assert.equal(sent.body.contents[0].parts.at(-1).text, 'a red chair');
+  });
+
+  test('turns a blocked prompt into a typed error', async () => {
+    const response = await callApi('edit', { prompt: 'STUB_BLOCK', sourceImage: { data: 'AA==', mimeType: 'image/png' } });
+    assert.equal(response.status, 422);
+    assert.equal((await response.json()).code, 'SAFETY_BLOCKED');
+  });
+
+  test('refuses calls without the access key', async () => {
+    const before = stub.requests.length;
+    const missing = await callApi('generate', { prompt: 'x' }, null);
+    const wrong = await callApi('generate', { prompt: 'x' }, 'not-the-key');
+    assert.equal(missing.status, 401);
+    assert.equal(wrong.status, 401);
+    assert.equal((await wrong.json()).code, 'ACCESS_DENIED');
+    assert.equal(stub.requests.length, before);
+  });
+
+  test('aborts the Gemini call when the browser hangs up', async () => {
+    const controller = new AbortController();
+    const pending = fetch(`${baseUrl}/api/generate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Studio-Key': ACCESS_KEY },
+      body: JSON.stringify({ prompt: 'STUB_SLOW', referenceImages: [] }),
+      signal: controller.signal,
+    }).catch((err) => err);
+
+    const waitFor = async (condition) => {
+      for (let i = 0; i < 100 && !condition(); i++) await new Promise((resolve) => setTimeout(resolve, 20));
+      assert.ok(condition());
+    };
+    await waitFor(() => stub.requests.at(-1)?.body.contents[0].parts.at(-1).text === 'STUB_SLOW');
+    controller.abort();
+    assert.equal((await pending).name, 'AbortError');
+    await waitFor(() => stub.requests.at(-1).aborted);
+  });
+
+  test('rate limits each client', async () => {
+    // Earlier tests already used part of this client's window
+    const statuses = [];
+    for (let i = 0; i < 5; i++) {
+      statuses.push((await callApi('generate', { prompt: 'STUB_TEXT' })).status);
+    }
+    assert.equal(statuses.at(-1), 429);
+  });
+
+  test('counts calls by the address the trusted proxy added, not a spoofed one', async () => {
+    const proxied = createStudioServer({ rateLimit: 2, trustedProxies: 1 });
+    const proxiedUrl = await listen(proxied);
+    const callAs = (forwardedFor) => fetch(`${proxiedUrl}/api/generate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Studio-Key': ACCESS_KEY, 'X-Forwarded-For': forwardedFor },
+      body: JSON.stringify({ prompt: 'STUB_TEXT' }),
+    });
+    try {
+      const statuses = [];
+      for (let i = 0; i < 3; i++) {
+        statuses.push((await callAs(`10.0.0.${i}, 203.0.113.7`)).status);
+      }
+      assert.equal(statuses.at(-1), 429);
+      assert.notEqual((await callAs('10.0.0.1, 203.0.113.8')).status, 429);
+    } finally {
+      await close(proxied);
+    }
+  });
+
+  test('answers 400 to a malformed path and keeps serving', async () => {
+    const bad = await fetch(`${baseUrl}/%E0%A4%A`);
+    assert.equal(bad.status, 400);
+    const next = await fetch(`${baseUrl}/assets/missing.js`);
+    assert.equal(next.status, 404);
+  });
+});
@@ -0,0 +1,110 @@
+import { User } from "../types";
+import { deleteAuthSession, getAuthSession, getUserByEmail, saveAuthSession } from "./db";
+import { generateToken, hashToken } from "./password";
+
+export const AUTH_SESSION_KEY = 'dpr_auth_session';
+
+// "Se souvenir de moi (30 jours)": persisted across browser restarts for 30 days.
+// Without it the session lives in sessionStorage and ends with the tab, or after 12 hours.
+export const REMEMBER_ME_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+export interface AuthSession {
+    token: string;
+    email: string;
+    expiresAt: number;
+}
+
+const readSession = (): AuthSession | null => {
+    const stored = localStorage.getItem(AUTH_SESSION_KEY) || sessionStorage.getItem(AUTH_SESSION_KEY);
+    if (!stored) return null;
+    try {
+        return JSON.parse(stored) as AuthSession;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Open a session: the token goes in the browser storage, its hash in the database.
+ * restoreSession only trusts a stored token whose hash was recorded here.
+ */
+export const startSession = async (user: User, rememberMe: boolean): Promise<AuthSession> => {
+    endSession();
+    const session: AuthSession = {
+        token: generateToken(),
+        email: user.email,
+        expiresAt: Date.now() + (rememberMe ? REMEMBER_ME_TTL_MS : SESSION_TTL_MS)
+    };
+    await saveAuthSession({ tokenHash: await hashToken(session.token), email: session.email, expiresAt: session.expiresAt });
+    const storage = rememberMe ? localStorage : sessionStorage;
+    storage.setItem(AUTH_SESSION_KEY, JSON.stringify(session));
+    return session;
+};
+
+const revokeSession = async (token: string) => {
+    await deleteAuthSession(await hashToken(token));
+};
+
+export const endSession = () => {
+    const session = readSession();
+    localStorage.removeItem(AUTH_SESSION_KEY);
+    sessionStorage.removeItem(AUTH_SESSION_KEY);
+    if (typeof session?.token === 'string') {
+        revokeSession(session.token).catch(e => console.error("Failed to revoke session", e));
+    }
+};
+
+export const isSessionActive = (): boolean => {
+    const session = readSession();
+    return !!session && session.expiresAt > Date.now();
+};
+
+/**
+ * Resolve the stored session back to a user. The token must match a session recorded by startSession,
+ * for the same account, and the recorded expiry wins over the stored one.
+ * Unknown or expired sessions, sessions of deleted users and users given a temporary password are cleared.
+ */
+export const restoreSession = async (): Promise<User | null> => {
+    const session = readSession();
+    if (!session || typeof session.token !== 'string') {
+        endSession();
+        return null;
+    }
+
+    const record = await getAuthSession(await hashToken(session.token));
+    if (!record || record.email !== session.email || record.expiresAt <= Date.now()) {
+        endSession();
+        return null;
+    }
+
+    const user = await getUserByEmail(record.email);
+    if (!user || user.mustChangePassword) {
+        endSession();
+        return null;
+    }
+    return user;
+};
+
+// --- Reset Links ---
+
+export interface ResetLinkParams {
+    email: string;
+    token: string;
+}
+
+export const buildResetLink = (email: string, token: string): string => {
+    const params = new URLSearchParams({ reset: token, email });
+    return `${window.location.origin}/?${params.toString()}`;
+};
+
+export const readResetLinkParams = (): ResetLinkParams | null => {
+    const params = new URLSearchParams(window.location.search);
+    const token = params.get('reset');
+    const email = params.get('email');
+    return token && email ? { email, token } : null;
+};
+
+export const clearResetLinkParams = () => {
+    window.history.replaceState(null, '', window.location.pathname);
+};
@@ -0,0 +1,118 @@
+import { User } from "../types";
+import {
+  AppConfig, BACKUP_STORES, BackupImage, BackupRecords, ConflictPolicy, exportRecords, getAppConfig,
+  getImageBlob, getImageIds, importBackup, ImportCounts, ImportMode, ImportSummary, saveAppConfig, SYS_INSTRUCTIONS_KEY
+} from "./db";
+import { assertPermission } from "./permissions";
+import { createZip, readZip, ZipFile } from "./zip";
+
+/**
+ * Whole workspace in one zip, to move the studio to another browser or survive a reset:
+ * manifest.json (records, branding, system instruction presets) and images/<id>.<ext>, one file per stored image.
+ */
+
+const BACKUP_FORMAT = 'dpr-ai-studio-backup';
+const BACKUP_FORMAT_VERSION = 1; // Bumped when the manifest changes shape
+const MANIFEST_FILE = 'manifest.json';
+const IMAGES_DIR = 'images/';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  exportedAt: number;
+  exportedBy: string; // Email
+  config: AppConfig;
+  systemInstructions: { id: string }[];
+  records: BackupRecords;
+}
+
+const readSystemInstructions = (): { id: string }[] => {
+  try {
+    return JSON.parse(localStorage.getItem(SYS_INSTRUCTIONS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const getBackupFileName = (): string => `dpr-studio-backup-${new Date().toISOString().slice(0, 10)}.zip`;
+
+export const exportWorkspace = async (actor: User): Promise<Blob> => {
+  const records = await exportRecords(actor);
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    exportedAt: Date.now(),
+    exportedBy: actor.email,
+    config: getAppConfig(),
+    systemInstructions: readSystemInstructions(),
+    records
+  };
+
+  const files: ZipFile[] = [{ name: MANIFEST_FILE, data: new Blob([JSON.stringify(manifest)], { type: 'application/json' }) }];
+  for (const id of await getImageIds()) {
+    const blob = await getImageBlob(id);
+    if (blob) files.push({ name: `${IMAGES_DIR}${id}.${IMAGE_EXTENSIONS[blob.type] || 'bin'}`, data: blob });
+  }
+  return createZip(files);
+};
+
+/**
+ * Restore or merge a backup made by exportWorkspace. Every image is read before anything is written:
+ * records and images then go in together, in one transaction (see importBackup).
+ */
+export const importWorkspace = async (actor: User, zip: Blob, mode: ImportMode, conflicts: ConflictPolicy): Promise<ImportSummary> => {
+  assertPermission(actor, 'workspace.backup');
+  const entries = await readZip(zip);
+  const manifestEntry = entries.find(entry => entry.name === MANIFEST_FILE);
+  if (!manifestEntry) throw new Error('This file is not a studio backup: manifest.json is missing.');
+
+  const manifest = JSON.parse(await (await manifestEntry.read()).text()) as BackupManifest;
+  if (manifest.format !== BACKUP_FORMAT) throw new Error('This file is not a studio backup.');
+  if (manifest.formatVersion > BACKUP_FORMAT_VERSION) throw new Error('This backup was made by a newer version of the studio.');
+
+  const images: BackupImage[] = [];
+  for (const entry of entries.filter(e => e.name.startsWith(IMAGES_DIR))) {
+    const [id, extension] = entry.name.slice(IMAGES_DIR.length).split('.');
+    const type = Object.keys(IMAGE_EXTENSIONS).find(t => IMAGE_EXTENSIONS[t] === extension) || '';
+    // Zip entries lose their type: images are served from the store, they need it back
+    images.push({ id, blob: new Blob([await entry.read()], { type }) });
+  }
+
+  const summary = await importBackup(actor, manifest.records, images, mode, conflicts);
+
+  const keepLocal = mode === 'merge' && conflicts === 'keep';
+  if (manifest.config && !keepLocal) saveAppConfig(manifest.config);
+
+  if (Array.isArray(manifest.systemInstructions)) {
+    const local = mode === 'restore' ? [] : readSystemInstructions();
+    const merged = [...local];
+    manifest.systemInstructions.forEach(preset => {
+      const index = merged.findIndex(p => p.id === preset.id);
+      if (index < 0) merged.push(preset);
+      else if (!keepLocal) merged[index] = preset;
+    });
+    localStorage.setItem(SYS_INSTRUCTIONS_KEY, JSON.stringify(merged));
+  }
+
+  return summary;
+};
+
+/**
+ * One line per kind of data, for the confirmation shown after an import
+ */
+export const describeImportSummary = (summary: ImportSummary): string => {
+  const describe = (label: string, counts: ImportCounts) =>
+    `${label}: ${counts.added} added, ${counts.replaced} replaced, ${counts.skipped} kept`;
+  return [
+    ...BACKUP_STORES.map(store => describe(store, summary.records[store])),
+    describe('images', summary.images),
+    ...(summary.invalidImages > 0 ? [`${summary.invalidImages} corrupted images left out`] : [])
+  ].join('\n');
+};
@@ -0,0 +1,146 @@
+import { BudgetLimit, CostEntry, Project, User } from "../types";
+import { getProject, getSpending, getUserByEmail, reserveCost, settleCost, sumCosts } from "./db";
+import { formatCurrency } from "./credits";
+
+export const EVENT_BUDGET_WARNING = 'dpr_budget_warning';
+export const DEFAULT_WARN_AT = 0.8;
+
+export type BudgetScope = 'project' | 'user';
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+    scope: BudgetScope;
+    name: string; // Project or user name
+    limit: BudgetLimit;
+    spent: number;
+    remaining: number;
+    level: BudgetLevel;
+}
+
+export class BudgetExceededError extends Error {
+    constructor(public status: BudgetStatus) {
+        super(`${describeBudget(status)} is exhausted (${formatCurrency(status.spent)} of ${formatCurrency(status.limit.amount)} spent). Ask an admin or your project manager to raise it.`);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+export const describeBudget = (status: BudgetStatus): string => {
+    const period = status.limit.period === 'monthly' ? 'monthly' : 'one-off';
+    return status.scope === 'project'
+        ? `The ${period} budget of project "${status.name}"`
+        : `The ${period} budget of ${status.name}`;
+};
+
+/**
+ * Monthly budgets restart on the 1st, one-off budgets count from their creation
+ */
+export const getPeriodStart = (limit: BudgetLimit, now: number = Date.now()): number => {
+    if (limit.period === 'one_off') return limit.startsAt;
+    const date = new Date(now);
+    return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+// A budget and the ledger entries it counts
+interface BudgetScopeFilter {
+    scope: BudgetScope;
+    name: string;
+    limit: BudgetLimit;
+    filter: { userId?: string; projectId?: string };
+}
+
+const evaluate = ({ scope, name, limit }: BudgetScopeFilter, spent: number, pendingCost: number): BudgetStatus => {
+    const projected = spent + pendingCost;
+
+    let level: BudgetLevel = 'ok';
+    if (pendingCost > 0 ? projected > limit.amount : spent >= limit.amount) level = 'exceeded';
+    else if (projected >= limit.amount * limit.warnAt) level = 'warning';
+
+    return { scope, name, limit, spent, remaining: limit.amount - spent, level };
+};
+
+/**
+ * Budgets applying to a user working on a project. Read from the database so changes made by an admin
+ * apply without logging out.
+ */
+const getApplicableBudgets = async (user: User, projectId?: string): Promise<BudgetScopeFilter[]> => {
+    const [storedUser, project] = await Promise.all([
+        getUserByEmail(user.email),
+        projectId ? getProject(projectId) : Promise.resolve<Project | null>(null)
+    ]);
+
+    const budgets: BudgetScopeFilter[] = [];
+    if (project?.budget) {
+        budgets.push({ scope: 'project', name: project.name, limit: project.budget, filter: { projectId: project.id } });
+    }
+    if (storedUser?.budget) {
+        budgets.push({ scope: 'user', name: storedUser.name, limit: storedUser.budget, filter: { userId: storedUser.id } });
+    }
+    return budgets;
+};
+
+/**
+ * Budgets applying to a user working on a project, with the cost of the next call taken into account.
+ * Calls still running count as spent.
+ */
+export const getBudgetStatuses = async (user: User, projectId?: string, pendingCost: number = 0): Promise<BudgetStatus[]> => {
+    const budgets = await getApplicableBudgets(user, projectId);
+    return Promise.all(budgets.map(async budget => evaluate(
+        budget,
+        await getSpending({ ...budget.filter, since: getPeriodStart(budget.limit), includeReservations: true }),
+        pendingCost
+    )));
+};
+
+/**
+ * The budget closest to running out, if any applies
+ */
+export const getTightestBudget = (statuses: BudgetStatus[]): BudgetStatus | null => {
+    return statuses.reduce<BudgetStatus | null>((tightest, s) => !tightest || s.remaining < tightest.remaining ? s : tightest, null);
+};
+
+// What a call is expected to cost, booked before it runs
+export type CostEstimate = Pick<CostEntry, 'action' | 'prompt' | 'model' | 'resolution' | 'imageCount' | 'unitPrice'>;
+
+/**
+ * Called before each paid API call: books its estimated cost in the ledger, or throws when a budget would be overrun.
+ * Check and booking happen in one ledger transaction, so calls started together cannot overrun a budget between them.
+ * Warns when a budget is nearly used up. Returns the reservation to settle with settleBudget once the call is over.
+ */
+export const reserveBudget = async (user: User, projectId: string | undefined, estimate: CostEstimate): Promise<string> => {
+    const budgets = await getApplicableBudgets(user, projectId);
+    const estimatedCost = estimate.imageCount * estimate.unitPrice;
+    const id = crypto.randomUUID();
+    let statuses: BudgetStatus[] = [];
+
+    await reserveCost({
+        ...estimate,
+        id,
+        timestamp: Date.now(),
+        userId: user.id,
+        userEmail: user.email,
+        projectId,
+        cost: estimatedCost
+    }, ledger => {
+        statuses = budgets.map(budget => evaluate(
+            budget,
+            sumCosts(ledger, { ...budget.filter, since: getPeriodStart(budget.limit), includeReservations: true }),
+            estimatedCost
+        ));
+        const exceeded = statuses.find(s => s.level === 'exceeded');
+        if (exceeded) throw new BudgetExceededError(exceeded);
+    });
+
+    const warning = statuses.find(s => s.level === 'warning');
+    if (warning) {
+        const message = `${describeBudget(warning)} is almost used up: ${formatCurrency(warning.remaining)} left.`;
+        window.dispatchEvent(new CustomEvent<string>(EVENT_BUDGET_WARNING, { detail: message }));
+    }
+    return id;
+};
+
+/**
+ * Replace a reservation with the actual cost of the call (nothing when it returned no image: refunded)
+ */
+export const settleBudget = (reservationId: string, entry: CostEntry | null): Promise<void> => {
+    return settleCost(reservationId, entry);
+};
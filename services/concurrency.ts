@@ -0,0 +1,35 @@
+/**
+ * Global limit on image API calls in flight, shared by every view (Generate, Angles, Edit, modal).
+ * Calls above the limit wait in FIFO order instead of failing.
+ */
+export const MAX_CONCURRENT_CALLS = 4;
+
+let activeCalls = 0;
+const waiting: (() => void)[] = [];
+
+const acquire = (): Promise<void> => {
+  if (activeCalls < MAX_CONCURRENT_CALLS) {
+    activeCalls++;
+    return Promise.resolve();
+  }
+  // The slot is handed over directly by release(), activeCalls stays the same
+  return new Promise(resolve => waiting.push(resolve));
+};
+
+const release = () => {
+  const next = waiting.shift();
+  if (next) next();
+  else activeCalls--;
+};
+
+/**
+ * Run task once a slot is free
+ */
+export const runLimited = async <T>(task: () => Promise<T>): Promise<T> => {
+  await acquire();
+  try {
+    return await task();
+  } finally {
+    release();
+  }
+};
@@ -1,25 +1,30 @@
+import { Resolution } from "../types";
 
-export const COST_KEY = 'dpr_total_cost_usd';
-export const EVENT_CREDITS_UPDATED = 'dpr_cost_updated'; // Keeping event name similar for compatibility, but logic changes
+// Fired whenever a cost is added to the ledger (see reserveCost and settleCost in services/db.ts)
+export const EVENT_CREDITS_UPDATED = 'dpr_cost_updated';
+
+// Models called by server/gemini.js
+export const MODEL_PRO = 'gemini-3-pro-image-preview';
+export const MODEL_FLASH = 'gemini-2.5-flash-image';
 
 // Pricing Constants (Estimated API costs)
 export const PRICE_PER_IMAGE_PRO = 0.04; // Gemini 3 Pro (Standard/1K/2K)
 export const PRICE_PER_IMAGE_4K = 0.134; // Gemini 3 Pro (4K)
 export const PRICE_PER_IMAGE_FLASH = 0.005; // Gemini Flash (Edit)
 
-export const getConsumedCredits = (): number => {
-  const stored = localStorage.getItem(COST_KEY);
-  return stored ? parseFloat(stored) : 0;
+export const getProImagePrice = (resolution?: Resolution): number => {
+  return resolution === Resolution.RES_4K ? PRICE_PER_IMAGE_4K : PRICE_PER_IMAGE_PRO;
+};
+
+/**
+ * Estimated cost of a Generate run: count variations at the chosen resolution
+ */
+export const estimateGenerationCost = (count: number, resolution?: Resolution): number => {
+  return count * getProImagePrice(resolution);
 };
 
-export const addConsumedCredits = (amount: number): number => {
-  const current = getConsumedCredits();
-  const next = current + amount;
-  localStorage.setItem(COST_KEY, next.toFixed(4));
-  
-  // Dispatch event so components can update reactively
-  window.dispatchEvent(new Event(EVENT_CREDITS_UPDATED));
-  return next;
+export const getUnitPrice = (model: string, resolution?: Resolution): number => {
+  return model === MODEL_FLASH ? PRICE_PER_IMAGE_FLASH : getProImagePrice(resolution);
 };
 
 export const formatCurrency = (amount: number) => {
@@ -1,5 +1,9 @@
 
-import { GeneratedImage, Session, User, ActivityLog, Project } from "../types";
+import { GeneratedImage, Session, User, ActivityLog, Project, ProjectMember, BudgetLimit, CostEntry, GenerationJob, ChatMessage } from "../types";
+import { hashPassword, verifyPassword, generateToken, hashToken } from "./password";
+import { assertPermission, canAccessProject, managesProject, Permission, PermissionError, ROLE_LABELS } from "./permissions";
+import { EVENT_CREDITS_UPDATED } from "./credits";
+import { createThumbnail } from "./thumbnails";
 
 const DB_NAME = 'GeminiStudioDB';
 const STORE_IMAGES = 'image_history';
@@ -7,10 +11,18 @@ const STORE_SESSIONS = 'chat_sessions';
 const STORE_USERS = 'users';
 const STORE_LOGS = 'activity_logs';
 const STORE_PROJECTS = 'projects';
-const DB_VERSION = 10; 
+const STORE_COSTS = 'cost_ledger';
+const STORE_JOBS = 'generation_jobs';
+const STORE_BLOBS = 'image_blobs';
+const STORE_THUMBNAILS = 'image_thumbnails';
+const STORE_AUTH_SESSIONS = 'auth_sessions';
+const STORE_META = 'meta';
+
+export const GENERAL_PROJECT_ID = 'project-general';
 
 // --- App Configuration (Branding) ---
 export const CONFIG_KEY = 'dpr_app_config';
+export const SYS_INSTRUCTIONS_KEY = 'gemini_sys_instructions'; // System instruction presets of Generate
 export const EVENT_CONFIG_UPDATED = 'dpr_config_updated';
 
 export interface AppConfig {
@@ -35,143 +47,780 @@ export const saveAppConfig = (config: AppConfig) => {
 
 // --- IndexedDB Initialization ---
 
-export const initDB = (): Promise<IDBDatabase> => {
+// Records written before v11 kept the password in plain text
+type LegacyUser = Omit<User, 'passwordHash'> & { password?: string; passwordHash?: string };
+
+// Accounts seeded by earlier versions, with a publicly known password: demo ones are deleted,
+// real ones still on that password must choose a new one at next login
+const SEEDED_TEST_USERS = ['test1@dpr.com', 'test2@dpr.com'];
+const SEEDED_USERS = ['karim.benkiran@dprgroup.com', 'ilyass.eladani@dprgroup.ma'];
+const SEEDED_PASSWORD = '1234';
+
+const putUserRecord = (db: IDBDatabase, user: User): Promise<void> => {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    const tx = db.transaction(STORE_USERS, 'readwrite');
+    const request = tx.objectStore(STORE_USERS).put(user);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
 
-    request.onerror = () => {
-      console.error("IndexedDB error:", request.error);
-      reject(request.error);
-    };
+const withHashedPassword = async (legacy: LegacyUser): Promise<User> => {
+  const { password, ...user } = legacy;
+  return { ...user, passwordHash: await hashPassword(password || '') };
+};
+
+// Hashing is async, so it cannot run inside onupgradeneeded: it runs right after the upgrade.
+const migratePlaintextPasswords = async (db: IDBDatabase): Promise<void> => {
+  const users = await new Promise<LegacyUser[]>((resolve, reject) => {
+    const request = db.transaction(STORE_USERS, 'readonly').objectStore(STORE_USERS).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  for (const legacy of users) {
+    if (legacy.password !== undefined && !legacy.passwordHash) {
+      await putUserRecord(db, await withHashedPassword(legacy));
+    }
+  }
+};
+
+// --- Image Blobs ---
+// Images are stored once, as Blobs keyed by the SHA-256 of their bytes; records only hold that id.
+// Images not stored yet (fresh API results, Edit versions) travel as data URLs:
+// an "image ref" is either, and every write below stores the data URLs it is given.
+// Each stored image counts the record fields pointing at it, updated in the transaction that writes
+// or deletes the record: it is deleted with the last one.
+
+const IMAGE_ID_PATTERN = /^[0-9a-f]{64}$/;
 
+export const isImageId = (ref: string): boolean => IMAGE_ID_PATTERN.test(ref);
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.split(':')[1].split(';')[0];
+  return new Blob([Uint8Array.from(atob(data), c => c.charCodeAt(0))], { type: mimeType });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionToPromise = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('The change was not saved.'));
+  });
+};
+
+const createThumbnailOrNull = (blob: Blob): Promise<Blob | null> => {
+  return createThumbnail(blob).catch(e => {
+    console.error("Failed to create thumbnail", e);
+    return null;
+  });
+};
+
+interface ImageBlobRecord {
+  id: string;
+  blob: Blob;
+  refs: number; // Record fields pointing at it
+}
+
+// An image a write is about to point at, hashed (and thumbnailed) before its transaction opens
+interface PreparedImage {
+  blob: Blob;
+  thumbnail: Blob | null;
+}
+
+type PreparedImages = Map<string, PreparedImage>;
+
+/**
+ * Id of a data URL, kept in prepared for the write that stores it. Ids (already stored) come back as is.
+ */
+const prepareImage = async (db: IDBDatabase, ref: string, prepared: PreparedImages): Promise<string> => {
+  if (!ref.startsWith('data:')) return ref;
+  const blob = dataUrlToBlob(ref);
+  const id = await hashBlob(blob);
+  if (prepared.has(id)) return id;
+  // Same bytes, same id: an image stored already only gets one more reference
+  const existing = await requestToPromise(db.transaction(STORE_BLOBS, 'readonly').objectStore(STORE_BLOBS).getKey(id));
+  // Without one, getThumbnailBlob tries again on first display
+  prepared.set(id, { blob, thumbnail: existing === undefined ? await createThumbnailOrNull(blob) : null });
+  return id;
+};
+
+const mapSessionImages = async (session: Session, convert: (ref: string) => Promise<string>): Promise<Session> => ({
+  ...session,
+  generatedImages: await Promise.all(session.generatedImages.map(convert)),
+  chatMessages: await Promise.all(session.chatMessages.map(async (msg): Promise<ChatMessage> => (
+    msg.image ? { ...msg, image: await convert(msg.image) } : msg
+  )))
+});
+
+/**
+ * Id of an image ref, without storing it: data URLs are hashed
+ */
+export const getImageId = async (ref: string): Promise<string> => {
+  return ref.startsWith('data:') ? hashBlob(dataUrlToBlob(ref)) : ref;
+};
+
+// Records pointing at stored images, and how to list their refs
+interface ReferencingRecords {
+  [STORE_IMAGES]: GeneratedImage;
+  [STORE_SESSIONS]: Session;
+  [STORE_JOBS]: GenerationJob;
+  [STORE_LOGS]: ActivityLog;
+}
+
+type ReferencingStore = keyof ReferencingRecords;
+
+const IMAGE_REFERENCES: { [S in ReferencingStore]: (record: ReferencingRecords[S]) => (string | undefined)[] } = {
+  [STORE_IMAGES]: image => [image.image],
+  [STORE_SESSIONS]: session => [...session.generatedImages, ...session.chatMessages.map(msg => msg.image)],
+  [STORE_JOBS]: job => job.results.map(result => result.image),
+  [STORE_LOGS]: log => [log.thumbnailUrl]
+};
+
+const REFERENCING_STORES = Object.keys(IMAGE_REFERENCES) as ReferencingStore[];
+
+const isReferencingStore = (storeName: string): storeName is ReferencingStore => storeName in IMAGE_REFERENCES;
+
+// Reference count changes of one transaction, by image id: applied together so each image is read and written once
+type RefChanges = Map<string, number>;
+
+const countRefs = <S extends ReferencingStore>(changes: RefChanges, storeName: S, record: ReferencingRecords[S] | undefined, change: 1 | -1) => {
+  if (!record) return;
+  const refsOf = IMAGE_REFERENCES[storeName] as (record: ReferencingRecords[S]) => (string | undefined)[];
+  refsOf(record).forEach(ref => {
+    if (ref && isImageId(ref)) changes.set(ref, (changes.get(ref) || 0) + change);
+  });
+};
+
+/**
+ * Apply reference count changes in tx, which covers the blob and thumbnail stores. Images no longer pointed to
+ * are deleted, new ones are stored from prepared. A record pointing at an image that is neither stored
+ * nor prepared (deleted meanwhile) aborts the transaction, unless missing images are allowed.
+ */
+const applyRefChanges = (tx: IDBTransaction, changes: RefChanges, prepared: PreparedImages, allowMissing = false) => {
+  const blobs = tx.objectStore(STORE_BLOBS);
+  const thumbnails = tx.objectStore(STORE_THUMBNAILS);
+  changes.forEach((change, id) => {
+    if (change === 0) return;
+    const request = blobs.get(id);
     request.onsuccess = () => {
-      resolve(request.result);
+      const stored = request.result as ImageBlobRecord | undefined;
+      const image = prepared.get(id);
+      const refs = (stored?.refs || 0) + change;
+      if (refs <= 0) {
+        blobs.delete(id);
+        thumbnails.delete(id);
+      } else if (stored) {
+        blobs.put({ ...stored, refs });
+      } else if (image) {
+        blobs.put({ id, blob: image.blob, refs });
+        if (image.thumbnail) thumbnails.put({ id, blob: image.thumbnail });
+      } else if (!allowMissing) {
+        tx.abort();
+      }
     };
+  });
+};
 
-    request.onupgradeneeded = (e) => {
-      const db = (e.target as IDBOpenDBRequest).result;
-      const tx = (e.target as IDBOpenDBRequest).transaction;
-      
-      if (!db.objectStoreNames.contains(STORE_IMAGES)) {
-        db.createObjectStore(STORE_IMAGES, { keyPath: 'id' });
-      }
-      if (!db.objectStoreNames.contains(STORE_SESSIONS)) {
-        db.createObjectStore(STORE_SESSIONS, { keyPath: 'id' });
+/**
+ * Write a record pointing at images, with their counts, in one transaction.
+ * update gets the stored record (undefined if none) and returns the one to write.
+ */
+const writeRecordAndImages = async <S extends ReferencingStore>(
+  db: IDBDatabase,
+  storeName: S,
+  id: string,
+  update: (existing: ReferencingRecords[S] | undefined) => ReferencingRecords[S],
+  prepared: PreparedImages
+): Promise<ReferencingRecords[S]> => {
+  const tx = db.transaction([storeName, STORE_BLOBS, STORE_THUMBNAILS], 'readwrite');
+  const store = tx.objectStore(storeName);
+  const request = store.get(id);
+  let written: ReferencingRecords[S] | undefined;
+  request.onsuccess = () => {
+    const existing = request.result as ReferencingRecords[S] | undefined;
+    written = update(existing);
+    store.put(written);
+    const changes: RefChanges = new Map();
+    countRefs(changes, storeName, existing, -1);
+    countRefs(changes, storeName, written, 1);
+    applyRefChanges(tx, changes, prepared);
+  };
+  await transactionToPromise(tx);
+  return written!;
+};
+
+/**
+ * Delete a record and release the images it pointed to, in one transaction
+ */
+const deleteRecordAndImages = async (db: IDBDatabase, storeName: ReferencingStore, id: string): Promise<void> => {
+  const tx = db.transaction([storeName, STORE_BLOBS, STORE_THUMBNAILS], 'readwrite');
+  const store = tx.objectStore(storeName);
+  const request = store.get(id);
+  request.onsuccess = () => {
+    if (!request.result) return;
+    store.delete(id);
+    const changes: RefChanges = new Map();
+    countRefs(changes, storeName, request.result, -1);
+    applyRefChanges(tx, changes, new Map());
+  };
+  await transactionToPromise(tx);
+};
+
+/**
+ * Count what points at each stored image, in one pass over the records; images nothing points to are dropped.
+ * Runs before the app queries anything (see openDB), so no write can come in between.
+ */
+const countImageReferences = async (db: IDBDatabase): Promise<void> => {
+  const counts: RefChanges = new Map();
+  for (const storeName of REFERENCING_STORES) {
+    await new Promise<void>((resolve, reject) => {
+      const request = db.transaction(storeName, 'readonly').objectStore(storeName).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+        countRefs(counts, storeName, cursor.value, 1);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  const tx = db.transaction([STORE_BLOBS, STORE_THUMBNAILS], 'readwrite');
+  const request = tx.objectStore(STORE_BLOBS).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const refs = counts.get(cursor.key as string) || 0;
+    if (refs > 0) {
+      cursor.update({ ...cursor.value, refs });
+    } else {
+      cursor.delete();
+      tx.objectStore(STORE_THUMBNAILS).delete(cursor.key);
+    }
+    cursor.continue();
+  };
+  await transactionToPromise(tx);
+};
+
+// Before v16 history records held the data URL in url, and job results too (activity logs kept the field name)
+type LegacyGeneratedImage = Omit<GeneratedImage, 'image'> & { image?: string; url?: string };
+type LegacyGenerationJob = Omit<GenerationJob, 'results'> & { results: { image?: string; url?: string; text?: string }[] };
+
+// Rewrites a store one record at a time, once the database is open: loading every data URL
+// at once is what the blob store is meant to avoid. convert returns undefined to leave a record as is.
+const migrateStore = async <T>(db: IDBDatabase, storeName: string, convert: (record: T) => Promise<unknown>) => {
+  const keys = await requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).getAllKeys());
+  for (const key of keys) {
+    const record = await requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).get(key)) as T | undefined;
+    if (!record) continue;
+    const converted = await convert(record);
+    if (converted === undefined) continue;
+    await requestToPromise(db.transaction(storeName, 'readwrite').objectStore(storeName).put(converted));
+  }
+};
+
+/**
+ * v16 step: store a data URL, with its thumbnail, and return its id. Reference counts came with v20, which sets them.
+ */
+const putLegacyImage = async (db: IDBDatabase, ref: string): Promise<string> => {
+  const prepared: PreparedImages = new Map();
+  const id = await prepareImage(db, ref, prepared);
+  const image = prepared.get(id);
+  if (!image) return id;
+  const tx = db.transaction([STORE_BLOBS, STORE_THUMBNAILS], 'readwrite');
+  const request = tx.objectStore(STORE_BLOBS).getKey(id);
+  request.onsuccess = () => {
+    if (request.result !== undefined) return;
+    tx.objectStore(STORE_BLOBS).put({ id, blob: image.blob, refs: 0 });
+    if (image.thumbnail) tx.objectStore(STORE_THUMBNAILS).put({ id, blob: image.thumbnail });
+  };
+  await transactionToPromise(tx);
+  return id;
+};
+
+// Hashing is async, so it cannot run inside onupgradeneeded: it runs right after the upgrade
+const migrateImagesToBlobStore = async (db: IDBDatabase): Promise<void> => {
+  await migrateStore<LegacyGeneratedImage>(db, STORE_IMAGES, async ({ url, ...image }) => ({
+    ...image,
+    image: await putLegacyImage(db, image.image || url || '')
+  }));
+  await migrateStore<Session>(db, STORE_SESSIONS, session => mapSessionImages(session, ref => putLegacyImage(db, ref)));
+  await migrateStore<LegacyGenerationJob>(db, STORE_JOBS, async job => ({
+    ...job,
+    results: await Promise.all(job.results.map(async ({ url, ...result }) => ({ ...result, image: await putLegacyImage(db, result.image || url || '') })))
+  }));
+  await migrateStore<ActivityLog>(db, STORE_LOGS, async log => (
+    log.thumbnailUrl ? { ...log, thumbnailUrl: await putLegacyImage(db, log.thumbnailUrl) } : log
+  ));
+};
+
+// --- Paginated Queries ---
+// History, sessions and logs are read newest first through a [field, timestamp] index,
+// a page at a time, instead of loading and sorting whole stores.
+
+type IndexedField = 'projectId' | 'userId' | 'action';
+
+// Every filter is checked on the records too: the index walked covers one of them at most
+const FILTER_FIELDS: IndexedField[] = ['projectId', 'userId', 'action'];
+
+// Every index is [field, timestamp], plus a plain timestamp index when no field is filtered
+const RECORD_INDEXES: { storeName: string; fields: IndexedField[] }[] = [
+  { storeName: STORE_IMAGES, fields: ['projectId'] },
+  { storeName: STORE_SESSIONS, fields: ['projectId'] },
+  { storeName: STORE_LOGS, fields: ['projectId', 'userId', 'action'] }
+];
+
+export const PAGE_SIZE = 48;
+
+export interface RecordQuery {
+  projectId?: string;
+  userId?: string;
+  action?: ActivityLog['action'];
+  since?: number; // Timestamps, inclusive
+  until?: number;
+  search?: string;
+}
+
+// Last record of a page: the next page starts right after it
+export interface PageCursor {
+  timestamp: number;
+  id: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  next: PageCursor | null;
+}
+
+/**
+ * One page of a store, newest first. The first filter that has an index narrows the walk,
+ * the others are checked on each record (a record without the field does not match),
+ * accept handles the rest (access rights, search).
+ */
+const readPage = async <T extends { id: string; timestamp: number; projectId?: string }>(
+  storeName: string,
+  query: RecordQuery,
+  accept: (record: T) => boolean,
+  after: PageCursor | null,
+  limit: number
+): Promise<Page<T>> => {
+  const fields = RECORD_INDEXES.find(i => i.storeName === storeName)!.fields;
+  const field = fields.find(f => query[f] !== undefined);
+  const keyOf = (timestamp: number): IDBValidKey => field ? [query[field]!, timestamp] : timestamp;
+  const since = query.since ?? -Infinity;
+  const until = Math.min(query.until ?? Infinity, after?.timestamp ?? Infinity);
+  if (until < since) return { items: [], next: null };
+
+  const matches = (record: T) => FILTER_FIELDS.every(f => query[f] === undefined || record[f as keyof T] === query[f]) && accept(record);
+
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const index = db.transaction(storeName, 'readonly').objectStore(storeName).index(field || 'timestamp');
+    const request = index.openCursor(IDBKeyRange.bound(keyOf(since), keyOf(until)), 'prev');
+    const items: T[] = [];
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve({ items, next: null });
+      const record = cursor.value as T;
+      // Same timestamp as the previous page's last record: ids already returned are at or above it
+      const alreadyReturned = after !== null && record.timestamp === after.timestamp && record.id >= after.id;
+      if (!alreadyReturned && matches(record)) {
+        items.push(record);
+        if (items.length === limit) return resolve({ items, next: { timestamp: record.timestamp, id: record.id } });
       }
-      
-      let userStore;
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const includesText = (text: string | undefined, search?: string): boolean => {
+  return !search || (text || '').toLowerCase().includes(search.toLowerCase());
+};
+
+// --- Schema Migrations ---
+// One step per version, in order. Opening a database at version N runs the steps above N only,
+// so data is never re-seeded or reset by later upgrades.
+
+interface Migration {
+  version: number;
+  // Runs inside the versionchange transaction: IndexedDB requests only, nothing awaited
+  upgrade: (db: IDBDatabase, tx: IDBTransaction) => void;
+  // Async work (hashing, record by record rewrites) that cannot run in that transaction: runs once the database is open,
+  // in version order, and again on the next open until it completes
+  afterOpen?: (db: IDBDatabase) => Promise<void>;
+}
+
+// Meta record listing the versions whose afterOpen has not completed yet
+const PENDING_MIGRATIONS_KEY = 'pending_migrations';
+
+// Browser-wide spending counter used before the cost ledger
+const LEGACY_COST_KEY = 'dpr_total_cost_usd';
+
+// Seeded on creation, never touched again: their counters belong to the users
+const SEEDED_PROJECT_NAMES = ['Danette', 'Danone', 'BMCI', 'JTI', 'FRMG'];
+
+const MIGRATIONS: Migration[] = [
+  {
+    // Base stores. Before versioned steps every upgrade created whatever was missing,
+    // so databases from any earlier version end up the same.
+    version: 10,
+    upgrade: (db, tx) => {
+      [STORE_IMAGES, STORE_SESSIONS, STORE_LOGS].forEach(name => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+      });
       if (!db.objectStoreNames.contains(STORE_USERS)) {
-        userStore = db.createObjectStore(STORE_USERS, { keyPath: 'email' }); // Email as key
-      } else {
-        userStore = tx?.objectStore(STORE_USERS);
+        db.createObjectStore(STORE_USERS, { keyPath: 'email' }); // Email as key
+      }
+      if (!db.objectStoreNames.contains(STORE_PROJECTS)) {
+        db.createObjectStore(STORE_PROJECTS, { keyPath: 'id' });
       }
 
-      // cleanup old users if they exist
-      if (userStore) {
-        // We attempt to delete the deprecated users
-        try {
-            userStore.delete('admin@dpr.studio');
-            userStore.delete('collab@dpr.studio');
-        } catch(e) { /* ignore if not found */ }
-
-        // Ensure specific users exist
-        try {
-            userStore.put({
-                id: 'karim-benkiran',
-                email: 'karim.benkiran@dprgroup.com',
-                password: '1234',
-                name: 'Karim',
-                role: 'admin'
-            } as User);
-            
-            userStore.put({
-                id: 'ilyass-eladani',
-                email: 'ilyass.eladani@dprgroup.ma',
-                password: '1234',
-                name: 'Ilyass',
-                role: 'user'
-            } as User);
-
-            // New Test Users
-            userStore.put({
-                id: 'test-user-1',
-                email: 'test1@dpr.com',
-                password: 'USER1',
-                name: 'Test User 1',
-                role: 'user'
-            } as User);
-
-            userStore.put({
-                id: 'test-user-2',
-                email: 'test2@dpr.com',
-                password: 'USER2',
-                name: 'Test User 2',
-                role: 'user'
-            } as User);
-        } catch (e) {
-            console.log("Users might already exist");
+      const projStore = tx.objectStore(STORE_PROJECTS);
+      const seeded: Project[] = [
+        { id: GENERAL_PROJECT_ID, name: 'General', createdAt: Date.now(), imageCount: 0, members: [] },
+        ...SEEDED_PROJECT_NAMES.map((name): Project => ({
+          id: `project-${name.toLowerCase().replace(/\s+/g, '-')}`,
+          name,
+          createdAt: Date.now(),
+          imageCount: 0,
+          members: []
+        }))
+      ];
+      // Only missing projects: existing counters are kept
+      seeded.forEach(project => {
+        const getReq = projStore.get(project.id);
+        getReq.onsuccess = () => {
+          if (!getReq.result) projStore.put(project);
+        };
+      });
+    }
+  },
+  {
+    // Passwords are hashed. No seeded accounts: the first administrator is created on first run (see SetupView)
+    version: 11,
+    upgrade: (_db, tx) => {
+      const userStore = tx.objectStore(STORE_USERS);
+      SEEDED_TEST_USERS.forEach(email => userStore.delete(email));
+      SEEDED_USERS.forEach(email => {
+        const getReq = userStore.get(email);
+        getReq.onsuccess = () => {
+          const user = getReq.result as LegacyUser | undefined;
+          if (user && user.password === SEEDED_PASSWORD) userStore.put({ ...user, mustChangePassword: true });
+        };
+      });
+    },
+    afterOpen: migratePlaintextPasswords
+  },
+  {
+    // The generic 'user' role was split into finer roles, collaborators become creators
+    version: 12,
+    upgrade: (_db, tx) => {
+      const cursorReq = tx.objectStore(STORE_USERS).openCursor();
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor) return;
+        if ((cursor.value.role as string) === 'user') {
+          cursor.update({ ...cursor.value, role: 'creator' });
         }
-      }
-      
-      if (!db.objectStoreNames.contains(STORE_LOGS)) {
-        db.createObjectStore(STORE_LOGS, { keyPath: 'id' });
-      }
+        cursor.continue();
+      };
+    }
+  },
+  {
+    // Projects got members. Existing accounts only join the projects they already created images in
+    // (per the activity logs), the rest is up to an admin; project managers manage the projects they join.
+    version: 13,
+    upgrade: (_db, tx) => {
+      const usersReq = tx.objectStore(STORE_USERS).getAll();
+      usersReq.onsuccess = () => {
+        const users = (usersReq.result as User[]).filter(u => u.role !== 'admin');
+        const logsReq = tx.objectStore(STORE_LOGS).getAll();
+        logsReq.onsuccess = () => {
+          const contributors = new Map<string, Set<string>>(); // Project id -> user ids
+          (logsReq.result as ActivityLog[]).forEach(log => {
+            const projectId = projectIdOf(log);
+            if (!contributors.has(projectId)) contributors.set(projectId, new Set());
+            contributors.get(projectId)!.add(log.userId);
+          });
+          const cursorReq = tx.objectStore(STORE_PROJECTS).openCursor();
+          cursorReq.onsuccess = () => {
+            const cursor = cursorReq.result;
+            if (!cursor) return;
+            if (!cursor.value.members) {
+              const userIds = contributors.get(cursor.value.id) || new Set<string>();
+              const members: ProjectMember[] = users
+                .filter(u => userIds.has(u.id))
+                .map((u): ProjectMember => ({ userId: u.id, role: u.role === 'project_manager' ? 'manager' : 'member' }));
+              cursor.update({ ...cursor.value, members });
+            }
+            cursor.continue();
+          };
+        };
+      };
+    }
+  },
+  {
+    // Cost ledger. Costs used to live on the activity logs only, they seed it. Generate runs were never logged:
+    // the rest of the old browser-wide counter goes in as one entry, on the first admin (the browser's owner).
+    version: 14,
+    upgrade: (db, tx) => {
+      const costStore = db.createObjectStore(STORE_COSTS, { keyPath: 'id' });
+      const logsReq = tx.objectStore(STORE_LOGS).getAll();
+      logsReq.onsuccess = () => {
+        const logged = (logsReq.result as ActivityLog[]).filter(log => (log.cost || 0) > 0);
+        logged.forEach(log => {
+          costStore.put({
+            id: log.id,
+            timestamp: log.timestamp,
+            userId: log.userId,
+            userEmail: log.userEmail,
+            projectId: log.projectId || GENERAL_PROJECT_ID,
+            action: log.action,
+            prompt: log.prompt,
+            model: 'unknown',
+            imageCount: 1,
+            unitPrice: log.cost,
+            cost: log.cost
+          } as CostEntry);
+        });
 
-      let projStore;
-      if (!db.objectStoreNames.contains(STORE_PROJECTS)) {
-        projStore = db.createObjectStore(STORE_PROJECTS, { keyPath: 'id' });
-        projStore.add({
-            id: 'project-general',
-            name: 'General',
-            createdAt: Date.now(),
-            imageCount: 0
-        } as Project);
-      } else {
-        projStore = tx?.objectStore(STORE_PROJECTS);
+        const unlogged = parseFloat(localStorage.getItem(LEGACY_COST_KEY) || '0') - logged.reduce((acc, log) => acc + log.cost!, 0);
+        if (!(unlogged >= 0.0001)) return;
+        const usersReq = tx.objectStore(STORE_USERS).getAll();
+        usersReq.onsuccess = () => {
+          const owner = (usersReq.result as User[]).find(u => u.role === 'admin');
+          costStore.put({
+            id: 'legacy-cost-counter',
+            timestamp: 0, // Undated: it must not count against the budgets of the current period
+            userId: owner?.id || '',
+            userEmail: owner?.email || '',
+            projectId: GENERAL_PROJECT_ID,
+            action: 'GENERATE',
+            prompt: 'Spending recorded before the cost ledger',
+            model: 'unknown',
+            imageCount: 1,
+            unitPrice: unlogged,
+            cost: unlogged
+          } as CostEntry);
+        };
+      };
+    },
+    // Only once the ledger holds it
+    afterOpen: async () => localStorage.removeItem(LEGACY_COST_KEY)
+  },
+  {
+    // Generate runs are queued jobs
+    version: 15,
+    upgrade: db => {
+      db.createObjectStore(STORE_JOBS, { keyPath: 'id' });
+    }
+  },
+  {
+    // Images move out of the records into a content-addressed blob store
+    version: 16,
+    upgrade: db => {
+      db.createObjectStore(STORE_BLOBS, { keyPath: 'id' });
+    },
+    // Records left with data URLs still display: image refs accept both
+    afterOpen: migrateImagesToBlobStore
+  },
+  {
+    // Indexes for the paginated queries. Records saved without a project get General's id,
+    // otherwise the project indexes would leave them out.
+    version: 17,
+    upgrade: (_db, tx) => {
+      RECORD_INDEXES.forEach(({ storeName, fields }) => {
+        const store = tx.objectStore(storeName);
+        store.createIndex('timestamp', 'timestamp');
+        fields.forEach(field => store.createIndex(field, [field, 'timestamp']));
+      });
+    },
+    // After v16's: records upgraded from before it only hold image ids by then, not data URLs
+    afterOpen: async db => {
+      for (const { storeName } of RECORD_INDEXES) {
+        await migrateStore<{ projectId?: string }>(db, storeName, async record => (
+          record.projectId ? undefined : { ...record, projectId: GENERAL_PROJECT_ID }
+        ));
       }
+    }
+  },
+  {
+    // Thumbnails, kept apart so grids never read full images.
+    // Images stored before get theirs on first display (see getThumbnailBlob).
+    version: 18,
+    upgrade: db => {
+      db.createObjectStore(STORE_THUMBNAILS, { keyPath: 'id' });
+    }
+  },
+  {
+    // Login sessions, keyed by the hash of their token: a stored session is only trusted if it is here
+    version: 19,
+    upgrade: db => {
+      db.createObjectStore(STORE_AUTH_SESSIONS, { keyPath: 'tokenHash' });
+    }
+  },
+  {
+    // Reference counts of the stored images, so deleting a record no longer reads every other one
+    version: 20,
+    upgrade: () => {},
+    afterOpen: countImageReferences
+  },
+  {
+    // Bookkeeping of the database itself (see PENDING_MIGRATIONS_KEY)
+    version: 21,
+    upgrade: db => {
+      db.createObjectStore(STORE_META);
+    }
+  },
+  {
+    // Ledger entries copied from older logs (v14) had no project: like the records in v17, they get General's id,
+    // otherwise project filters and budgets would leave them out. Entries hold no images: one cursor is enough.
+    version: 22,
+    upgrade: (_db, tx) => {
+      const cursorReq = tx.objectStore(STORE_COSTS).openCursor();
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor) return;
+        if (!cursor.value.projectId) cursor.update({ ...cursor.value, projectId: GENERAL_PROJECT_ID });
+        cursor.continue();
+      };
+    }
+  }
+];
 
-      if (projStore) {
-        const newProjects = [
-            'Danette',
-            'Danone',
-            'BMCI',
-            'JTI',
-            'FRMG'
-        ];
-        
-        newProjects.forEach(name => {
-             const id = `project-${name.toLowerCase().replace(/\s+/g, '-')}`;
-             // Try to get first to avoid overwriting existing data if possible, 
-             // but inside upgradeneeded we can't async wait easily. 
-             // We use put which updates or inserts.
-             try {
-                 projStore.put({
-                     id: id,
-                     name: name,
-                     createdAt: Date.now(),
-                     imageCount: 0
-                 } as Project);
-             } catch (e) { console.error(e); }
-        });
+const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Run the afterOpen steps still pending, oldest first, each one struck off once it completes.
+ * A failing step stops the run: later steps may rely on it.
+ */
+const runPendingMigrations = async (db: IDBDatabase): Promise<void> => {
+  const readPending = db.transaction(STORE_META, 'readonly').objectStore(STORE_META).get(PENDING_MIGRATIONS_KEY);
+  const stored = (await requestToPromise(readPending)) as number[] | undefined;
+  let pending = [...(stored || [])].sort((a, b) => a - b);
+  for (const version of [...pending]) {
+    try {
+      await MIGRATIONS.find(m => m.version === version)?.afterOpen?.(db);
+    } catch (e) {
+      console.error(`Migration to v${version} failed`, e);
+      throw new Error(`Updating the local database failed (v${version}). Reload the page to try again.`);
+    }
+    pending = pending.filter(v => v !== version);
+    await requestToPromise(db.transaction(STORE_META, 'readwrite').objectStore(STORE_META).put(pending, PENDING_MIGRATIONS_KEY));
+  }
+};
+
+const openDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => {
+      console.error("IndexedDB error:", request.error);
+      reject(request.error);
+    };
+
+    request.onblocked = () => {
+      console.warn("IndexedDB upgrade blocked: the studio is open in another tab");
+    };
+
+    request.onupgradeneeded = (e) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      const pending = MIGRATIONS.filter(m => m.version > e.oldVersion);
+      pending.forEach(m => m.upgrade(db, tx));
+      // Recorded in this transaction: a tab closed before they complete leaves them pending for the next open
+      const meta = tx.objectStore(STORE_META);
+      const readPending = meta.get(PENDING_MIGRATIONS_KEY);
+      readPending.onsuccess = () => {
+        const versions = pending.filter(m => m.afterOpen).map(m => m.version);
+        meta.put([...((readPending.result as number[] | undefined) || []), ...versions], PENDING_MIGRATIONS_KEY);
+      };
+    };
+
+    request.onsuccess = async () => {
+      const db = request.result;
+      try {
+        await runPendingMigrations(db);
+      } catch (e) {
+        // Not handed out half migrated: the next query opens it again and retries
+        db.close();
+        reject(e);
+        return;
       }
+      resolve(db);
     };
   });
 };
 
+let connection: Promise<IDBDatabase> | null = null;
+
+/**
+ * The database connection, opened (and migrated) on first use then shared by every query
+ */
+export const initDB = (): Promise<IDBDatabase> => {
+  if (!connection) {
+    connection = openDB().then(db => {
+      // Another tab upgrading needs this connection closed; the next query opens a new one
+      db.onversionchange = () => {
+        db.close();
+        connection = null;
+      };
+      db.onclose = () => {
+        connection = null;
+      };
+      return db;
+    }).catch(e => {
+      connection = null;
+      throw e;
+    });
+  }
+  return connection;
+};
+
 // --- Project Methods ---
 
-export const getProjects = async (): Promise<Project[]> => {
+// Records saved without a project belong to General
+const projectIdOf = (item: { projectId?: string }): string => item.projectId || GENERAL_PROJECT_ID;
+
+/**
+ * Projects visible to the given user (all of them for admins)
+ */
+export const getProjects = async (user: User): Promise<Project[]> => {
     const db = await initDB();
     return new Promise((resolve, reject) => {
         const tx = db.transaction(STORE_PROJECTS, 'readonly');
         const store = tx.objectStore(STORE_PROJECTS);
         const request = store.getAll();
         request.onsuccess = () => {
-            let projects = request.result as Project[];
+            let projects = (request.result as Project[]).filter(p => canAccessProject(user, p));
             // Sort: General first, then Alphabetical
             projects.sort((a, b) => {
-                if (a.id === 'project-general') return -1;
-                if (b.id === 'project-general') return 1;
+                if (a.id === GENERAL_PROJECT_ID) return -1;
+                if (b.id === GENERAL_PROJECT_ID) return 1;
                 return a.name.localeCompare(b.name);
             });
             resolve(projects);
@@ -180,7 +829,22 @@ export const getProjects = async (): Promise<Project[]> => {
     });
 };
 
-export const createProject = async (name: string): Promise<Project> => {
+export const getProject = async (id: string): Promise<Project | null> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const request = db.transaction(STORE_PROJECTS, 'readonly').objectStore(STORE_PROJECTS).get(id);
+        request.onsuccess = () => resolve((request.result as Project) || null);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const getAccessibleProjectIds = async (user: User): Promise<Set<string>> => {
+    const projects = await getProjects(user);
+    return new Set(projects.map(p => p.id));
+};
+
+export const createProject = async (name: string, actor: User): Promise<Project> => {
+    assertPermission(actor, 'projects.manage');
     const db = await initDB();
     return new Promise((resolve, reject) => {
         const tx = db.transaction(STORE_PROJECTS, 'readwrite');
@@ -189,7 +853,8 @@ export const createProject = async (name: string): Promise<Project> => {
             id: crypto.randomUUID(),
             name,
             createdAt: Date.now(),
-            imageCount: 0
+            imageCount: 0,
+            members: []
         };
         const request = store.add(newProject);
         request.onsuccess = () => resolve(newProject);
@@ -197,7 +862,8 @@ export const createProject = async (name: string): Promise<Project> => {
     });
 };
 
-export const deleteProject = async (id: string): Promise<void> => {
+export const deleteProject = async (id: string, actor: User): Promise<void> => {
+    assertPermission(actor, 'projects.manage');
     const db = await initDB();
     return new Promise((resolve, reject) => {
         const tx = db.transaction(STORE_PROJECTS, 'readwrite');
@@ -208,6 +874,45 @@ export const deleteProject = async (id: string): Promise<void> => {
     });
 };
 
+// Admins can edit any project, project managers only the ones they manage
+const updateManagedProject = async (projectId: string, permission: Permission, actor: User, changes: Partial<Project>): Promise<Project> => {
+    assertPermission(actor, permission);
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(STORE_PROJECTS, 'readwrite');
+        const store = tx.objectStore(STORE_PROJECTS);
+        const getReq = store.get(projectId);
+
+        getReq.onsuccess = () => {
+            const project = getReq.result as Project;
+            if (!project) {
+                reject(new Error("Project not found"));
+                return;
+            }
+            if (!managesProject(actor, project)) {
+                reject(new PermissionError(permission));
+                return;
+            }
+            const updated: Project = { ...project, ...changes };
+            const request = store.put(updated);
+            request.onsuccess = () => resolve(updated);
+            request.onerror = () => reject(request.error);
+        };
+        getReq.onerror = () => reject(getReq.error);
+    });
+};
+
+export const setProjectMembers = (projectId: string, members: ProjectMember[], actor: User): Promise<Project> => {
+    return updateManagedProject(projectId, 'projects.manageMembers', actor, { members });
+};
+
+/**
+ * Set or remove (undefined) the budget of a project
+ */
+export const setProjectBudget = (projectId: string, budget: BudgetLimit | undefined, actor: User): Promise<Project> => {
+    return updateManagedProject(projectId, 'projects.manageBudgets', actor, { budget });
+};
+
 export const incrementProjectImageCount = async (projectId: string, amount: number = 1): Promise<void> => {
     try {
         const db = await initDB();
@@ -232,34 +937,79 @@ export const incrementProjectImageCount = async (projectId: string, amount: numb
 export const authenticateUser = async (identifier: string, password: string): Promise<User | null> => {
     try {
         const db = await initDB();
-        return new Promise((resolve, reject) => {
+        const users = await new Promise<User[]>((resolve, reject) => {
             const tx = db.transaction(STORE_USERS, 'readonly');
             const store = tx.objectStore(STORE_USERS);
             
-            // We need to check both Email and Name.
-            // Since 'email' is the key, we can try to get by key first.
-            // If not found, we scan for name.
-            
-            const request = store.getAll(); // Get all users to check name or email
-            
-            request.onsuccess = () => {
-                const users = request.result as User[];
-                const found = users.find(u => 
-                    (u.email.toLowerCase() === identifier.toLowerCase() || 
-                     u.name.toLowerCase() === identifier.toLowerCase()) && 
-                    u.password === password
-                );
-                
-                resolve(found || null);
-            };
+            // We need to check both Email and Name, so scan all users.
+            const request = store.getAll();
+            request.onsuccess = () => resolve(request.result);
             request.onerror = () => reject(request.error);
         });
+
+        const candidates = users.filter(u =>
+            u.email.toLowerCase() === identifier.toLowerCase() ||
+            u.name.toLowerCase() === identifier.toLowerCase()
+        );
+
+        // Plain text passwords were all hashed by the v11 migration: a record without a hash never matches
+        for (const candidate of candidates) {
+            if (await verifyPassword(password, candidate.passwordHash)) return candidate;
+        }
+        return null;
     } catch (e) {
         console.error("Auth error", e);
         return null;
     }
 }
 
+/**
+ * Login session as recorded on this device. The token itself only lives in the browser storage.
+ */
+export interface AuthSessionRecord {
+    tokenHash: string; // SHA-256 of the session token, see services/password.ts
+    email: string;
+    expiresAt: number;
+}
+
+/**
+ * Record a new session. Expired ones (tabs closed without logging out) are dropped on the way.
+ */
+export const saveAuthSession = async (record: AuthSessionRecord): Promise<void> => {
+    const db = await initDB();
+    const tx = db.transaction(STORE_AUTH_SESSIONS, 'readwrite');
+    const store = tx.objectStore(STORE_AUTH_SESSIONS);
+    const cursorReq = store.openCursor();
+    cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor) return;
+        if ((cursor.value as AuthSessionRecord).expiresAt <= Date.now()) cursor.delete();
+        cursor.continue();
+    };
+    store.put(record);
+    await transactionToPromise(tx);
+};
+
+export const getAuthSession = async (tokenHash: string): Promise<AuthSessionRecord | null> => {
+    const db = await initDB();
+    const record = await requestToPromise(db.transaction(STORE_AUTH_SESSIONS, 'readonly').objectStore(STORE_AUTH_SESSIONS).get(tokenHash));
+    return (record as AuthSessionRecord) || null;
+};
+
+export const deleteAuthSession = async (tokenHash: string): Promise<void> => {
+    const db = await initDB();
+    await requestToPromise(db.transaction(STORE_AUTH_SESSIONS, 'readwrite').objectStore(STORE_AUTH_SESSIONS).delete(tokenHash));
+};
+
+export const countUsers = async (): Promise<number> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const request = db.transaction(STORE_USERS, 'readonly').objectStore(STORE_USERS).count();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
 export const getUserByEmail = async (email: string): Promise<User | null> => {
     try {
         const db = await initDB();
@@ -280,7 +1030,10 @@ export const getUserByEmail = async (email: string): Promise<User | null> => {
     }
 };
 
-export const createUser = async (user: User): Promise<void> => {
+export type UserProfile = Omit<User, 'passwordHash'>;
+
+export const createUser = async (profile: UserProfile, password: string): Promise<User> => {
+    const user: User = { ...profile, passwordHash: await hashPassword(password) };
     const db = await initDB();
     return new Promise((resolve, reject) => {
         const tx = db.transaction(STORE_USERS, 'readwrite');
@@ -292,7 +1045,7 @@ export const createUser = async (user: User): Promise<void> => {
                 reject(new Error("User with this email already exists"));
             } else {
                  const request = store.add(user);
-                 request.onsuccess = () => resolve();
+                 request.onsuccess = () => resolve(user);
                  request.onerror = () => reject(request.error);
             }
         };
@@ -300,7 +1053,20 @@ export const createUser = async (user: User): Promise<void> => {
     });
 };
 
-export const updateUser = async (user: User, oldEmail?: string): Promise<void> => {
+/**
+ * Update a user's profile (admin side).
+ * A new password is a temporary one: the user must replace it at next login.
+ */
+export const updateUser = async (profile: UserProfile, actor: User, oldEmail?: string, temporaryPassword?: string): Promise<void> => {
+    assertPermission(actor, 'users.manage');
+    const existing = await getUserByEmail(oldEmail || profile.email);
+    if (!existing) throw new Error("User not found");
+    if (existing.role === 'admin' && profile.role !== 'admin') await assertNotLastAdmin(existing.email);
+
+    const user: User = temporaryPassword
+        ? { ...existing, ...profile, passwordHash: await hashPassword(temporaryPassword), mustChangePassword: true }
+        : { ...existing, ...profile };
+
     const db = await initDB();
     return new Promise((resolve, reject) => {
         const tx = db.transaction(STORE_USERS, 'readwrite');
@@ -325,7 +1091,66 @@ export const updateUser = async (user: User, oldEmail?: string): Promise<void> =
     });
 };
 
-export const deleteUser = async (email: string): Promise<void> => {
+// --- Password Reset Methods ---
+
+export const RESET_TOKEN_TTL_MS = 72 * 60 * 60 * 1000;
+
+/**
+ * Issue a one-time reset token for a user. Only its hash is stored; the token goes in the emailed link.
+ */
+export const issuePasswordReset = async (email: string, actor: User): Promise<string> => {
+    assertPermission(actor, 'users.manage');
+    const user = await getUserByEmail(email);
+    if (!user) throw new Error("User not found");
+
+    const token = generateToken();
+    const db = await initDB();
+    await putUserRecord(db, {
+        ...user,
+        resetTokenHash: await hashToken(token),
+        resetTokenExpiresAt: Date.now() + RESET_TOKEN_TTL_MS
+    });
+    return token;
+};
+
+/**
+ * Set a password chosen by the user. Clears any temporary password flag and pending reset token.
+ */
+export const changePassword = async (email: string, newPassword: string): Promise<User> => {
+    const user = await getUserByEmail(email);
+    if (!user) throw new Error("User not found");
+
+    const { resetTokenHash, resetTokenExpiresAt, ...rest } = user;
+    const updated: User = { ...rest, passwordHash: await hashPassword(newPassword), mustChangePassword: false };
+    const db = await initDB();
+    await putUserRecord(db, updated);
+    return updated;
+};
+
+export const resetPasswordWithToken = async (email: string, token: string, newPassword: string): Promise<User> => {
+    const user = await getUserByEmail(email);
+    const valid = !!user?.resetTokenHash &&
+        (user.resetTokenExpiresAt || 0) > Date.now() &&
+        user.resetTokenHash === await hashToken(token);
+
+    if (!valid) throw new Error("This reset link is invalid or has expired");
+    return changePassword(email, newPassword);
+};
+
+/**
+ * The studio must always keep an admin: refuse to delete or demote the last one
+ */
+const assertNotLastAdmin = async (email: string): Promise<void> => {
+    const admins = (await getUsers()).filter(u => u.role === 'admin');
+    if (admins.length === 1 && admins[0].email === email) {
+        throw new Error("You cannot remove the last admin of the studio");
+    }
+};
+
+export const deleteUser = async (email: string, actor: User): Promise<void> => {
+    assertPermission(actor, 'users.manage');
+    if (email === actor.email) throw new Error("You cannot delete your own account");
+    await assertNotLastAdmin(email);
     const db = await initDB();
     return new Promise((resolve, reject) => {
         const tx = db.transaction(STORE_USERS, 'readwrite');
@@ -336,6 +1161,20 @@ export const deleteUser = async (email: string): Promise<void> => {
     });
 };
 
+/**
+ * Set or remove (undefined) the personal budget of a user
+ */
+export const setUserBudget = async (email: string, budget: BudgetLimit | undefined, actor: User): Promise<User> => {
+    assertPermission(actor, 'users.manage');
+    const user = await getUserByEmail(email);
+    if (!user) throw new Error("User not found");
+
+    const updated: User = { ...user, budget };
+    const db = await initDB();
+    await putUserRecord(db, updated);
+    return updated;
+};
+
 export const getUsers = async (): Promise<User[]> => {
     const db = await initDB();
     return new Promise((resolve, reject) => {
@@ -352,6 +1191,7 @@ export const getUsers = async (): Promise<User[]> => {
 export const logActivity = async (userId: string, userEmail: string, action: ActivityLog['action'], prompt: string, details: string, thumbnail?: string, projectId?: string, cost?: number): Promise<void> => {
     try {
         const db = await initDB();
+        const prepared: PreparedImages = new Map();
         const log: ActivityLog = {
             id: crypto.randomUUID(),
             userId,
@@ -359,134 +1199,482 @@ export const logActivity = async (userId: string, userEmail: string, action: Act
             action,
             prompt,
             details,
-            thumbnailUrl: thumbnail,
+            thumbnailUrl: thumbnail ? await prepareImage(db, thumbnail, prepared) : undefined,
             timestamp: Date.now(),
-            projectId,
+            projectId: projectId || GENERAL_PROJECT_ID,
             cost: cost || 0
         };
         
-        const tx = db.transaction(STORE_LOGS, 'readwrite');
-        tx.objectStore(STORE_LOGS).add(log);
+        await writeRecordAndImages(db, STORE_LOGS, log.id, () => log, prepared);
     } catch (e) {
         console.error("Failed to log activity", e);
     }
 }
 
-export const getAllActivityLogs = async (): Promise<ActivityLog[]> => {
-    try {
-        const db = await initDB();
-        return new Promise((resolve, reject) => {
-            const tx = db.transaction(STORE_LOGS, 'readonly');
-            const request = tx.objectStore(STORE_LOGS).getAll();
-            
-            request.onsuccess = () => {
-                const results = request.result as ActivityLog[];
-                resolve(results.sort((a, b) => b.timestamp - a.timestamp));
-            };
-            request.onerror = () => reject(request.error);
-        });
-    } catch (e) {
-        return [];
-    }
+/**
+ * A page of the activity of the projects the actor manages (every project for admins), newest first
+ */
+export const getActivityLogsPage = async (actor: User, query: RecordQuery, after: PageCursor | null = null, limit: number = PAGE_SIZE): Promise<Page<ActivityLog>> => {
+    const managedIds = new Set((await getProjects(actor)).filter(p => managesProject(actor, p)).map(p => p.id));
+    return readPage<ActivityLog>(STORE_LOGS, query, log =>
+        managedIds.has(projectIdOf(log)) && (includesText(log.prompt, query.search) || includesText(log.userEmail, query.search)),
+        after, limit);
 }
 
-// --- Image History Methods ---
+// --- Cost Ledger Methods ---
 
-export const saveImageToHistory = async (image: GeneratedImage): Promise<void> => {
-  try {
+/**
+ * Reservations of calls that never settled (tab closed mid-call) stop counting after this long
+ */
+const RESERVATION_TTL_MS = 30 * 60 * 1000;
+
+export interface SpendingFilter {
+    userId?: string;
+    projectId?: string;
+    since: number;
+    includeReservations?: boolean; // Count the calls still running, as budgets do
+}
+
+const isReservation = (entry: CostEntry): boolean => entry.reservedUntil !== undefined;
+
+/**
+ * Amount spent in a list of ledger entries by a user and/or on a project since a date
+ */
+export const sumCosts = (entries: CostEntry[], filter: SpendingFilter, now: number = Date.now()): number => {
+    return entries
+        .filter(entry => isReservation(entry) ? !!filter.includeReservations && entry.reservedUntil! > now : true)
+        .filter(entry => entry.timestamp >= filter.since)
+        .filter(entry => !filter.userId || entry.userId === filter.userId)
+        .filter(entry => !filter.projectId || projectIdOf(entry) === filter.projectId)
+        .reduce((acc, entry) => acc + entry.cost, 0);
+};
+
+const readCostLedger = async (): Promise<CostEntry[]> => {
     const db = await initDB();
     return new Promise((resolve, reject) => {
-      const tx = db.transaction(STORE_IMAGES, 'readwrite');
-      const store = tx.objectStore(STORE_IMAGES);
-      const request = store.add(image);
+        const request = db.transaction(STORE_COSTS, 'readonly').objectStore(STORE_COSTS).getAll();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
 
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+/**
+ * Ledger entries of the projects the actor manages (every project for admins), newest first.
+ * Reservations of running calls are left out: they are not spent yet.
+ */
+export const getCostLedger = async (actor: User): Promise<CostEntry[]> => {
+    const managedIds = new Set((await getProjects(actor)).filter(p => managesProject(actor, p)).map(p => p.id));
+    const entries = await readCostLedger();
+    return entries
+        .filter(entry => !isReservation(entry) && managedIds.has(projectIdOf(entry)))
+        .sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * Amount spent by a user and/or on a project since a date
+ */
+export const getSpending = async (filter: SpendingFilter): Promise<number> => {
+    return sumCosts(await readCostLedger(), filter);
+};
+
+/**
+ * Check and reserve in one transaction: check sees the whole ledger and throws to refuse.
+ * Ledger transactions run one after the other, so parallel calls each see the reservations
+ * of the ones before and cannot all pass the same check. Settle or release it once the call is over.
+ */
+export const reserveCost = async (reservation: Omit<CostEntry, 'reservedUntil'>, check: (ledger: CostEntry[]) => void): Promise<void> => {
+    const db = await initDB();
+    await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(STORE_COSTS, 'readwrite');
+        const store = tx.objectStore(STORE_COSTS);
+        const getReq = store.getAll();
+        let refusal: unknown = null;
+        getReq.onsuccess = () => {
+            const now = Date.now();
+            const ledger = (getReq.result as CostEntry[]).filter(entry => {
+                const expired = isReservation(entry) && entry.reservedUntil! <= now;
+                if (expired) store.delete(entry.id);
+                return !expired;
+            });
+            try {
+                check(ledger);
+            } catch (e) {
+                refusal = e;
+                tx.abort();
+                return;
+            }
+            store.add({ ...reservation, projectId: projectIdOf(reservation), reservedUntil: Date.now() + RESERVATION_TTL_MS });
+        };
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(refusal || tx.error);
     });
-  } catch (error) {
-    console.error("Failed to save image to history", error);
-  }
+    window.dispatchEvent(new Event(EVENT_CREDITS_UPDATED));
 };
 
-export const getImageHistory = async (): Promise<GeneratedImage[]> => {
-  try {
+/**
+ * Replace a reservation with what the call actually cost, or just drop it (nothing billed, refund)
+ */
+export const settleCost = async (reservationId: string, entry: CostEntry | null): Promise<void> => {
     const db = await initDB();
-    return new Promise((resolve, reject) => {
-      const tx = db.transaction(STORE_IMAGES, 'readonly');
-      const store = tx.objectStore(STORE_IMAGES);
-      const request = store.getAll();
+    const tx = db.transaction(STORE_COSTS, 'readwrite');
+    const store = tx.objectStore(STORE_COSTS);
+    store.delete(reservationId);
+    if (entry) store.put({ ...entry, projectId: projectIdOf(entry) });
+    await transactionToPromise(tx);
+    window.dispatchEvent(new Event(EVENT_CREDITS_UPDATED));
+};
 
-      request.onsuccess = () => {
-        // Return newest first
-        const results = request.result as GeneratedImage[];
-        resolve(results.sort((a, b) => b.timestamp - a.timestamp));
-      };
-      request.onerror = () => reject(request.error);
-    });
+// --- Image History Methods ---
+
+export const saveImageToHistory = async (image: GeneratedImage): Promise<void> => {
+  try {
+    const db = await initDB();
+    const prepared: PreparedImages = new Map();
+    const record: GeneratedImage = { ...image, projectId: projectIdOf(image), image: await prepareImage(db, image.image, prepared) };
+    await writeRecordAndImages(db, STORE_IMAGES, record.id, () => record, prepared);
   } catch (error) {
-    console.error("Failed to get image history", error);
-    return [];
+    console.error("Failed to save image to history", error);
   }
 };
 
-export const deleteImageFromHistory = async (id: string): Promise<void> => {
+/**
+ * A page of the images of the projects the user has access to, newest first
+ */
+export const getImageHistoryPage = async (user: User, query: RecordQuery, after: PageCursor | null = null, limit: number = PAGE_SIZE): Promise<Page<GeneratedImage>> => {
+  const projectIds = await getAccessibleProjectIds(user);
+  return readPage<GeneratedImage>(STORE_IMAGES, query, img =>
+    projectIds.has(projectIdOf(img)) && (includesText(img.prompt, query.search) || includesText(img.projectName, query.search)),
+    after, limit);
+};
+
+// Project name the Angles tool saves its images under
+export const ANGLES_WORKSPACE = 'Angles Workspace';
+
+/**
+ * A page of the Angles tool's images the user has access to, newest first.
+ * Older ones were saved without the workspace name and are told apart by their prompt.
+ */
+export const getAngleHistoryPage = async (user: User, after: PageCursor | null = null, limit: number = PAGE_SIZE): Promise<Page<GeneratedImage>> => {
+  const projectIds = await getAccessibleProjectIds(user);
+  return readPage<GeneratedImage>(STORE_IMAGES, {}, img =>
+    projectIds.has(projectIdOf(img)) && (img.projectName === ANGLES_WORKSPACE || img.prompt.includes('Camera Rotation:')),
+    after, limit);
+};
+
+/**
+ * Images and sessions can be deleted by their author, or by whoever manages their project,
+ * as long as the project is visible to them. Records saved before authors were kept only by managers.
+ */
+const assertCanDeleteRecord = async (actor: User, record: { projectId?: string; userId?: string }, permission: Permission): Promise<void> => {
+    assertPermission(actor, permission);
+    const project = await getProject(projectIdOf(record));
+    if (!project || !canAccessProject(actor, project)) throw new PermissionError(permission);
+    if (record.userId !== actor.id && !managesProject(actor, project)) throw new PermissionError(permission);
+};
+
+export const deleteImageFromHistory = async (id: string, actor: User): Promise<void> => {
+    assertPermission(actor, 'history.delete');
     const db = await initDB();
-    return new Promise((resolve, reject) => {
-        const tx = db.transaction(STORE_IMAGES, 'readwrite');
-        const store = tx.objectStore(STORE_IMAGES);
-        const request = store.delete(id);
-        
-        request.onsuccess = () => resolve();
-        request.onerror = () => reject(request.error);
-    });
+    const image = await requestToPromise(db.transaction(STORE_IMAGES, 'readonly').objectStore(STORE_IMAGES).get(id)) as GeneratedImage | undefined;
+    if (!image) return;
+    await assertCanDeleteRecord(actor, image, 'history.delete');
+    await deleteRecordAndImages(db, STORE_IMAGES, image.id);
 }
 
+// --- Image Blob Methods ---
+
+export const getImageBlob = async (id: string): Promise<Blob | null> => {
+  const db = await initDB();
+  const record = await requestToPromise(db.transaction(STORE_BLOBS, 'readonly').objectStore(STORE_BLOBS).get(id));
+  return record ? (record as ImageBlobRecord).blob : null;
+};
+
+/**
+ * Thumbnail of a stored image (see services/thumbnails.ts), the full image if none can be made
+ */
+export const getThumbnailBlob = async (id: string): Promise<Blob | null> => {
+  const db = await initDB();
+  const record = await requestToPromise(db.transaction(STORE_THUMBNAILS, 'readonly').objectStore(STORE_THUMBNAILS).get(id));
+  if (record) return (record as { id: string; blob: Blob }).blob;
+
+  const blob = await getImageBlob(id);
+  if (!blob) return null;
+  const thumbnail = await createThumbnailOrNull(blob);
+  if (!thumbnail) return blob;
+  // Unless the image was deleted meanwhile: its thumbnail would stay behind
+  const tx = db.transaction([STORE_BLOBS, STORE_THUMBNAILS], 'readwrite');
+  const request = tx.objectStore(STORE_BLOBS).getKey(id);
+  request.onsuccess = () => {
+    if (request.result !== undefined) tx.objectStore(STORE_THUMBNAILS).put({ id, blob: thumbnail });
+  };
+  await transactionToPromise(tx);
+  return thumbnail;
+};
+
+/**
+ * Image ref -> data URL, for API calls that send the image itself
+ */
+export const loadImageDataUrl = async (ref: string): Promise<string> => {
+  if (!isImageId(ref)) return ref;
+  const blob = await getImageBlob(ref);
+  if (!blob) throw new Error('This image is no longer in the local store.');
+  return blobToDataUrl(blob);
+};
+
 // --- Session Methods ---
 
-export const saveSession = async (session: Session): Promise<void> => {
-  try {
+/**
+ * A chat session, if its project is one the user has access to
+ */
+export const getSession = async (user: User, id: string): Promise<Session | null> => {
+  const projectIds = await getAccessibleProjectIds(user);
+  const db = await initDB();
+  const session = await requestToPromise(db.transaction(STORE_SESSIONS, 'readonly').objectStore(STORE_SESSIONS).get(id)) as Session | undefined;
+  return session && projectIds.has(projectIdOf(session)) ? session : null;
+};
+
+/**
+ * A page of the chat sessions of the projects the user has access to, newest first
+ */
+export const getSessionsPage = async (user: User, query: RecordQuery, after: PageCursor | null = null, limit: number = PAGE_SIZE): Promise<Page<Session>> => {
+  const projectIds = await getAccessibleProjectIds(user);
+  return readPage<Session>(STORE_SESSIONS, query, session =>
+    projectIds.has(projectIdOf(session)) && includesText(session.prompt, query.search),
+    after, limit);
+};
+
+/**
+ * Append generated images and/or chat messages to a session, creating it if needed.
+ * Read and write happen in one transaction so two runs finishing together, or a refinement and a run,
+ * do not overwrite each other.
+ */
+export const appendSessionImages = async (session: Session, images: string[], messages: ChatMessage[] = []): Promise<Session> => {
+  const db = await initDB();
+  // Hashed first: the transaction below must not wait on anything else
+  const prepared: PreparedImages = new Map();
+  const prepare = (ref: string) => prepareImage(db, ref, prepared);
+  const base = await mapSessionImages({ ...session, projectId: projectIdOf(session) }, prepare);
+  const added = await mapSessionImages({ ...session, generatedImages: images, chatMessages: messages }, prepare);
+  return writeRecordAndImages(db, STORE_SESSIONS, session.id, (existing = base) => ({
+    ...existing,
+    timestamp: Date.now(),
+    generatedImages: [...existing.generatedImages, ...added.generatedImages],
+    chatMessages: [...existing.chatMessages, ...added.chatMessages]
+  }), prepared);
+};
+
+export const deleteSession = async (id: string, actor: User): Promise<void> => {
+    assertPermission(actor, 'images.create');
     const db = await initDB();
-    return new Promise((resolve, reject) => {
-      const tx = db.transaction(STORE_SESSIONS, 'readwrite');
-      const store = tx.objectStore(STORE_SESSIONS);
-      const request = store.put(session); // Use put to handle both add and update
+    const session = await requestToPromise(db.transaction(STORE_SESSIONS, 'readonly').objectStore(STORE_SESSIONS).get(id)) as Session | undefined;
+    if (!session) return;
+    await assertCanDeleteRecord(actor, session, 'images.create');
+    await deleteRecordAndImages(db, STORE_SESSIONS, session.id);
+};
 
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
-    });
-  } catch (error) {
-    console.error("Failed to save session", error);
-  }
+// --- Generation Job Methods ---
+
+export const saveGenerationJob = async (job: GenerationJob): Promise<void> => {
+    const db = await initDB();
+    const prepared: PreparedImages = new Map();
+    const results = await Promise.all(job.results.map(async result => ({ ...result, image: await prepareImage(db, result.image, prepared) })));
+    await writeRecordAndImages(db, STORE_JOBS, job.id, () => ({ ...job, results }), prepared);
 };
 
-export const getSessions = async (): Promise<Session[]> => {
-  try {
+/**
+ * Jobs started by a user, oldest first
+ */
+export const getGenerationJobs = async (userId: string): Promise<GenerationJob[]> => {
     const db = await initDB();
     return new Promise((resolve, reject) => {
-      const tx = db.transaction(STORE_SESSIONS, 'readonly');
-      const store = tx.objectStore(STORE_SESSIONS);
-      const request = store.getAll();
-
-      request.onsuccess = () => {
-        const results = request.result as Session[];
-        resolve(results.sort((a, b) => b.timestamp - a.timestamp));
-      };
-      request.onerror = () => reject(request.error);
+        const request = db.transaction(STORE_JOBS, 'readonly').objectStore(STORE_JOBS).getAll();
+        request.onsuccess = () => {
+            const jobs = (request.result as GenerationJob[]).filter(job => job.userId === userId);
+            resolve(jobs.sort((a, b) => a.createdAt - b.createdAt));
+        };
+        request.onerror = () => reject(request.error);
     });
-  } catch (error) {
-    console.error("Failed to get sessions", error);
-    return [];
+};
+
+export const deleteGenerationJob = async (id: string): Promise<void> => {
+    const db = await initDB();
+    const job = await requestToPromise(db.transaction(STORE_JOBS, 'readonly').objectStore(STORE_JOBS).get(id)) as GenerationJob | undefined;
+    if (!job) return;
+    await deleteRecordAndImages(db, STORE_JOBS, job.id);
+};
+
+// --- Backup Methods ---
+// Raw records for services/backup.ts. Jobs are left out: their reference images are Files, and a queue
+// only means something in the browser running it. Thumbnails are rebuilt on first display.
+
+export const BACKUP_STORES = ['users', 'projects', 'sessions', 'history', 'logs', 'costs'] as const;
+export type BackupStore = typeof BACKUP_STORES[number];
+export type BackupRecords = Record<BackupStore, unknown[]>;
+
+const BACKUP_STORE_NAMES: Record<BackupStore, string> = {
+  users: STORE_USERS,
+  projects: STORE_PROJECTS,
+  sessions: STORE_SESSIONS,
+  history: STORE_IMAGES,
+  logs: STORE_LOGS,
+  costs: STORE_COSTS
+};
+
+// restore replaces the whole workspace, merge only adds to it
+export type ImportMode = 'merge' | 'restore';
+// When merging a record that exists on both sides (same id, or email for users)
+export type ConflictPolicy = 'keep' | 'replace';
+
+export interface ImportCounts {
+  added: number;
+  replaced: number;
+  skipped: number;
+}
+
+export const emptyImportCounts = (): ImportCounts => ({ added: 0, replaced: 0, skipped: 0 });
+
+/**
+ * Every record of the backed up stores, read in one transaction so they are consistent
+ */
+export const exportRecords = async (actor: User): Promise<BackupRecords> => {
+  assertPermission(actor, 'workspace.backup');
+  const db = await initDB();
+  const tx = db.transaction(Object.values(BACKUP_STORE_NAMES), 'readonly');
+  const entries = await Promise.all(BACKUP_STORES.map(async store =>
+    [store, await requestToPromise(tx.objectStore(BACKUP_STORE_NAMES[store]).getAll())] as const
+  ));
+  return Object.fromEntries(entries) as BackupRecords;
+};
+
+export const getImageIds = async (): Promise<string[]> => {
+  const db = await initDB();
+  return (await requestToPromise(db.transaction(STORE_BLOBS, 'readonly').objectStore(STORE_BLOBS).getAllKeys())) as string[];
+};
+
+export interface ImportSummary {
+  records: Record<BackupStore, ImportCounts>;
+  images: ImportCounts;
+  invalidImages: number; // Corrupted files, left out
+}
+
+// An image file of a backup, named after its id
+export interface BackupImage {
+  id: string;
+  blob: Blob;
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isOptionalString = (value: unknown): boolean => value === undefined || isString(value);
+
+// Fields the app reads without checking: a backup with records missing them is refused
+const BACKUP_RECORD_SHAPES: Record<BackupStore, (record: Record<string, unknown>) => boolean> = {
+  users: user => isString(user.id) && isString(user.email) && isString(user.name) && isString(user.passwordHash)
+    && isString(user.role) && user.role in ROLE_LABELS,
+  projects: project => isString(project.id) && isString(project.name) && isNumber(project.createdAt) && isNumber(project.imageCount)
+    && (project.members === undefined || Array.isArray(project.members)),
+  sessions: session => isString(session.id) && isNumber(session.timestamp) && isString(session.prompt) && isOptionalString(session.projectId)
+    && Array.isArray(session.generatedImages) && session.generatedImages.every(isString) && Array.isArray(session.chatMessages),
+  history: image => isString(image.id) && isString(image.image) && isString(image.prompt) && isNumber(image.timestamp)
+    && isOptionalString(image.projectId),
+  logs: log => isString(log.id) && isString(log.userId) && isString(log.action) && isNumber(log.timestamp) && isOptionalString(log.projectId),
+  costs: entry => isString(entry.id) && isString(entry.userId) && isNumber(entry.timestamp) && isNumber(entry.cost)
+};
+
+const assertBackupRecords = (records: unknown): Partial<BackupRecords> => {
+  if (typeof records !== 'object' || records === null) throw new Error('This backup is damaged: it has no records.');
+  for (const store of BACKUP_STORES) {
+    const list = (records as Record<string, unknown>)[store];
+    if (list === undefined) continue;
+    if (!Array.isArray(list)) throw new Error(`This backup is damaged: ${store} is not a list.`);
+    const index = list.findIndex(record => typeof record !== 'object' || record === null || !BACKUP_RECORD_SHAPES[store](record));
+    if (index >= 0) throw new Error(`This backup is damaged: record ${index + 1} of ${store} is malformed.`);
   }
+  return records as Partial<BackupRecords>;
 };
 
-export const deleteSession = async (id: string): Promise<void> => {
+/**
+ * Write a backup's records and images in one transaction: a failing or interrupted import leaves the workspace as it was.
+ * Images are checked against their id (a content hash) first, those that do not match are left out.
+ * Image reference counts follow the records written and replaced.
+ * Restore also empties the job queue and the thumbnails. Either way the actor's own account is kept as it is here,
+ * and login sessions of the accounts the import replaced are ended.
+ */
+export const importBackup = async (actor: User, backupRecords: unknown, images: BackupImage[], mode: ImportMode, conflicts: ConflictPolicy): Promise<ImportSummary> => {
+  assertPermission(actor, 'workspace.backup');
+  const records = assertBackupRecords(backupRecords);
+
+  // Hashing is async: it cannot run inside the transaction
+  // Thumbnails are rebuilt on first display
+  const validImages: PreparedImages = new Map();
+  let invalidImages = 0;
+  for (const { id, blob } of images) {
+    if (isImageId(id) && await hashBlob(blob) === id) validImages.set(id, { blob, thumbnail: null });
+    else invalidImages++;
+  }
+
   const db = await initDB();
-    return new Promise((resolve, reject) => {
-        const tx = db.transaction(STORE_SESSIONS, 'readwrite');
-        const store = tx.objectStore(STORE_SESSIONS);
-        const request = store.delete(id);
-        
-        request.onsuccess = () => resolve();
-        request.onerror = () => reject(request.error);
-    });
-};
\ No newline at end of file
+  const storeNames = [...Object.values(BACKUP_STORE_NAMES), STORE_BLOBS, STORE_THUMBNAILS, STORE_AUTH_SESSIONS];
+  const tx = db.transaction(mode === 'restore' ? [...storeNames, STORE_JOBS] : storeNames, 'readwrite');
+  const actorRecord = await requestToPromise(tx.objectStore(STORE_USERS).get(actor.email)) as User | undefined;
+  if (mode === 'restore') {
+    [...Object.values(BACKUP_STORE_NAMES), STORE_BLOBS, STORE_JOBS, STORE_THUMBNAILS].forEach(name => tx.objectStore(name).clear());
+    if (actorRecord) tx.objectStore(STORE_USERS).put(actorRecord);
+  }
+
+  const counts = Object.fromEntries(BACKUP_STORES.map(store => [store, emptyImportCounts()])) as Record<BackupStore, ImportCounts>;
+  const replacedEmails = new Set<string>();
+  const refChanges: RefChanges = new Map();
+  for (const store of BACKUP_STORES) {
+    const storeName = BACKUP_STORE_NAMES[store];
+    const objectStore = tx.objectStore(storeName);
+    const keyPath = objectStore.keyPath as string;
+    const existing = new Set(mode === 'restore' ? [] : await requestToPromise(objectStore.getAllKeys()));
+    for (const record of records[store] || []) {
+      const fields = record as Record<string, unknown>;
+      const key = fields[keyPath] as IDBValidKey;
+      if (store === 'users' && actorRecord && (fields.email === actor.email || fields.id === actor.id)) {
+        counts[store].skipped++;
+        continue;
+      }
+      if (existing.has(key) && conflicts === 'keep') {
+        counts[store].skipped++;
+        continue;
+      }
+      if (existing.has(key)) {
+        if (isReferencingStore(storeName)) countRefs(refChanges, storeName, await requestToPromise(objectStore.get(key)), -1);
+        counts[store].replaced++;
+        if (store === 'users') replacedEmails.add(key as string);
+      } else {
+        counts[store].added++;
+      }
+      objectStore.put(record);
+      if (isReferencingStore(storeName)) countRefs(refChanges, storeName, record as ReferencingRecords[typeof storeName], 1);
+    }
+  }
+
+  // Backed up images nothing points to are left out, records pointing at images missing from the backup are kept
+  const imageCounts = emptyImportCounts();
+  const existingImages = new Set(mode === 'restore' ? [] : await requestToPromise(tx.objectStore(STORE_BLOBS).getAllKeys()));
+  validImages.forEach((_image, id) => {
+    if (!existingImages.has(id) && (refChanges.get(id) || 0) > 0) imageCounts.added++;
+    else imageCounts.skipped++;
+  });
+  applyRefChanges(tx, refChanges, validImages, true);
+
+  // Restore replaced every other account: a session left here could belong to someone else now
+  const sessionsReq = tx.objectStore(STORE_AUTH_SESSIONS).openCursor();
+  sessionsReq.onsuccess = () => {
+    const cursor = sessionsReq.result;
+    if (!cursor) return;
+    const { email } = cursor.value as AuthSessionRecord;
+    if (mode === 'restore' ? email !== actor.email : replacedEmails.has(email)) cursor.delete();
+    cursor.continue();
+  };
+
+  await transactionToPromise(tx);
+  // Totals and budgets are derived from the ledger: refresh them
+  window.dispatchEvent(new Event(EVENT_CREDITS_UPDATED));
+  return { records: counts, images: imageCounts, invalidImages };
+};
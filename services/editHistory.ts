@@ -0,0 +1,38 @@
+/**
+ * Versions of one image in the Edit tab: the uploaded source is the root, each edit result is a child
+ * of the version it was made from. Editing an earlier version starts a new branch, nothing is overwritten.
+ */
+export interface EditVersion {
+    id: string;
+    parentId: string | null;
+    image: string; // data URL
+    prompt: string; // Empty for the source
+    timestamp: number;
+}
+
+export const createVersion = (image: string, parentId: string | null, prompt: string = ''): EditVersion => ({
+    id: crypto.randomUUID(),
+    parentId,
+    image,
+    prompt,
+    timestamp: Date.now()
+});
+
+export const getChildren = (versions: EditVersion[], parentId: string | null): EditVersion[] => {
+    return versions.filter(v => v.parentId === parentId).sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Depth-first order, for display as an indented tree
+ */
+export const flattenVersionTree = (versions: EditVersion[]): { version: EditVersion; depth: number }[] => {
+    const rows: { version: EditVersion; depth: number }[] = [];
+    const visit = (parentId: string | null, depth: number) => {
+        getChildren(versions, parentId).forEach(version => {
+            rows.push({ version, depth });
+            visit(version.id, depth + 1);
+        });
+    };
+    visit(null, 0);
+    return rows;
+};
@@ -0,0 +1,114 @@
+/**
+ * Why an image call failed. Set by server/gemini.js from the Gemini response or API error,
+ * except NETWORK and TIMEOUT which can also be raised by the browser (see geminiProvider.ts)
+ * and ACCESS_DENIED, raised by server/index.js when the studio access key is missing or wrong.
+ */
+export type ProviderErrorCode = 'SAFETY_BLOCKED' | 'NO_IMAGE' | 'QUOTA_EXCEEDED' | 'INVALID_API_KEY' | 'TIMEOUT' | 'NETWORK' | 'ACCESS_DENIED' | 'UNKNOWN';
+
+/**
+ * Failed provider call. status is the HTTP status returned by the proxy (0 when it could not be reached),
+ * reason the raw Gemini reason when there is one (finishReason, blockReason),
+ * modelText what the model wrote instead of an image.
+ * The message is meant for the user: it says what to do next.
+ */
+export class ProviderError extends Error {
+  code: ProviderErrorCode = 'UNKNOWN';
+
+  constructor(message: string, public status: number, public reason?: string, public modelText?: string) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+// The model's own words often explain a refusal better than the reason code
+const quoteModel = (modelText?: string) => modelText ? ` Gemini said: "${modelText}"` : '';
+
+export class SafetyBlockedError extends ProviderError {
+  code: ProviderErrorCode = 'SAFETY_BLOCKED';
+
+  constructor(status: number, reason?: string, modelText?: string) {
+    super(`Blocked by Gemini's safety filters${reason ? ` (${reason})` : ''}. Rephrase the prompt or use other reference images.${quoteModel(modelText)}`, status, reason, modelText);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class NoImageError extends ProviderError {
+  code: ProviderErrorCode = 'NO_IMAGE';
+
+  constructor(status: number, reason?: string, modelText?: string) {
+    super(`Gemini answered without an image${reason ? ` (${reason})` : ''}. Describe more explicitly the image you expect and try again.${quoteModel(modelText)}`, status, reason, modelText);
+    this.name = 'NoImageError';
+  }
+}
+
+export class QuotaExceededError extends ProviderError {
+  code: ProviderErrorCode = 'QUOTA_EXCEEDED';
+
+  constructor(status: number) {
+    super('Gemini quota or rate limit reached. Wait a minute before trying again; if it keeps happening, ask an admin to check the API plan.', status);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class InvalidApiKeyError extends ProviderError {
+  code: ProviderErrorCode = 'INVALID_API_KEY';
+
+  constructor(status: number) {
+    super('The Gemini API key of the server is missing or invalid. Ask an admin to check GEMINI_API_KEY.', status);
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+export class AccessDeniedError extends ProviderError {
+  code: ProviderErrorCode = 'ACCESS_DENIED';
+
+  constructor(status: number) {
+    super('The studio server refused this browser. Ask an admin to enter the server access key in Admin > Settings.', status);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+export class TimeoutError extends ProviderError {
+  code: ProviderErrorCode = 'TIMEOUT';
+
+  constructor(status: number) {
+    super('Gemini took too long to answer. Try again, or pick a lower resolution.', status);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class NetworkError extends ProviderError {
+  code: ProviderErrorCode = 'NETWORK';
+
+  constructor() {
+    super('Could not reach the studio server. Check your connection and try again.', 0);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Typed error for a failed proxy response ({ error, code, reason, text } body, see server/index.js)
+ */
+export const toProviderError = (status: number, body: { error?: string; code?: string; reason?: string; text?: string }): ProviderError => {
+  switch (body.code as ProviderErrorCode | undefined) {
+    case 'SAFETY_BLOCKED': return new SafetyBlockedError(status, body.reason, body.text);
+    case 'NO_IMAGE': return new NoImageError(status, body.reason, body.text);
+    case 'QUOTA_EXCEEDED': return new QuotaExceededError(status);
+    case 'INVALID_API_KEY': return new InvalidApiKeyError(status);
+    case 'TIMEOUT': return new TimeoutError(status);
+    case 'ACCESS_DENIED': return new AccessDeniedError(status);
+    default: return new ProviderError(body.error || `Gemini proxy error (${status})`, status);
+  }
+};
+
+/**
+ * Rate limits, server-side failures, timeouts and network drops usually pass on their own: worth retrying
+ */
+export const isTransientError = (err: unknown): boolean => {
+  if (!(err instanceof ProviderError)) return false;
+  return err.code === 'TIMEOUT' || err.code === 'NETWORK' || err.status === 429 || err.status >= 500;
+};
+
+export const isAbortError = (err: unknown): boolean => {
+  return err instanceof DOMException && err.name === 'AbortError';
+};
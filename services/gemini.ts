@@ -1,35 +1,35 @@
-import { GoogleGenAI, Part } from "@google/genai";
-import { AspectRatio, Resolution } from "../types";
+import { ActivityLog, AspectRatio, ImageOutput, Resolution, User } from "../types";
+import { getImageProvider, InlineImage } from "./imageProvider";
+import { CostEstimate, reserveBudget, settleBudget } from "./budgets";
+import { getUnitPrice, MODEL_FLASH, MODEL_PRO } from "./credits";
+import { logActivity } from "./db";
+import { compositeWithMask, InpaintMask } from "./mask";
+import { runLimited } from "./concurrency";
+import { isAbortError, NoImageError } from "./errors";
 
-// Models
-const MODEL_GENERATE = 'gemini-3-pro-image-preview'; // Nano banana pro
-const MODEL_EDIT = 'gemini-2.5-flash-image'; // Nano banana / Flash Image
+// Variations per generateImages run: one API call each
+export const DEFAULT_VARIATIONS = 2;
+export const MAX_VARIATIONS = 8;
 
 /**
- * Helper to ensure API key is selected for paid models (Veo/Pro Image)
+ * Who is generating, and for which project: used to enforce budgets, bill and log each call
  */
-async function ensureApiKey() {
-  if (window.aistudio && window.aistudio.hasSelectedApiKey) {
-    const hasKey = await window.aistudio.hasSelectedApiKey();
-    if (!hasKey) {
-      await window.aistudio.openSelectKey();
-    }
-  }
+export interface GenerationContext {
+  user: User;
+  projectId?: string;
 }
 
 /**
  * Helper to convert a File to base64 string
  */
-export const fileToPart = async (file: File): Promise<Part> => {
+export const fileToInlineImage = async (file: File): Promise<InlineImage> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onloadend = () => {
       const base64String = (reader.result as string).split(',')[1];
       resolve({
-        inlineData: {
-          data: base64String,
-          mimeType: file.type,
-        },
+        data: base64String,
+        mimeType: file.type,
       });
     };
     reader.onerror = reject;
@@ -38,130 +38,231 @@ export const fileToPart = async (file: File): Promise<Part> => {
 };
 
 /**
- * Generate 2 images in parallel
+ * Helper to turn a data URL (history, other tabs) back into a File for the tools' upload inputs
+ */
+export const dataUrlToFile = (dataUrl: string, fileName: string): File => {
+  const { data, mimeType } = dataUrlToInlineImage(dataUrl);
+  const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+  return new File([bytes], fileName, { type: mimeType });
+};
+
+/**
+ * Helper to split a data URL into base64 string and mimeType
+ */
+const dataUrlToInlineImage = (dataUrl: string): InlineImage => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.split(':')[1].split(';')[0];
+  return { data, mimeType };
+};
+
+const inlineImageToDataUrl = ({ data, mimeType }: InlineImage): string => `data:${mimeType};base64,${data}`;
+
+/**
+ * With a mask, keep the model output only inside it: the rest of the source comes back untouched
+ */
+const applyMask = async (source: string, image: string, mask?: InpaintMask): Promise<string> => {
+  return mask ? compositeWithMask(source, image, mask) : image;
+};
+
+/**
+ * Providers answer null / [] when a response holds no image: surface it as an error, never as an empty result
+ */
+const requireImage = (image: string | null): string => {
+  if (!image) throw new NoImageError(0);
+  return image;
+};
+
+/**
+ * Book the estimated cost of a call against the budgets, run it, and refund the booking if it fails
+ * (recordCall settles it when it succeeds). Calls to the offline mock provider cost nothing:
+ * they get no booking (null) and stay out of the ledger and the budgets.
+ */
+const withReservation = async <T>(context: GenerationContext, estimate: CostEstimate, call: (reservationId: string | null) => Promise<T>): Promise<T> => {
+  if (getImageProvider().id === 'mock') return call(null);
+  const reservationId = await reserveBudget(context.user, context.projectId, estimate);
+  try {
+    return await call(reservationId);
+  } catch (err) {
+    await settleBudget(reservationId, null).catch(e => console.error("Failed to release budget reservation", e));
+    throw err;
+  }
+};
+
+/**
+ * Single hook run after every API call: its reservation becomes one ledger entry, plus one activity log entry,
+ * for the images the call actually returned and those cancelled while Gemini was already producing them
+ * (billed all the same). Mock calls, without a reservation, are only logged, at no cost.
+ */
+const recordCall = async (
+  context: GenerationContext,
+  reservationId: string | null,
+  action: ActivityLog['action'],
+  prompt: string,
+  details: string,
+  model: string,
+  resolution: Resolution | undefined,
+  images: string[],
+  cancelledInFlight: number = 0
+): Promise<void> => {
+  const imageCount = images.length + cancelledInFlight;
+  const unitPrice = reservationId ? getUnitPrice(model, resolution) : 0;
+  const cost = imageCount * unitPrice;
+  if (reservationId) await settleBudget(reservationId, imageCount === 0 ? null : {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    userId: context.user.id,
+    userEmail: context.user.email,
+    projectId: context.projectId,
+    action,
+    prompt,
+    model,
+    resolution,
+    imageCount,
+    unitPrice,
+    cost,
+  });
+  if (imageCount === 0) return;
+  const cancelledDetails = cancelledInFlight > 0 ? `${cancelledInFlight} cancelled in flight (billed)` : '';
+  await logActivity(context.user.id, context.user.email, action, prompt, [details, cancelledDetails].filter(Boolean).join(', '), images[0], context.projectId, cost);
+};
+
+/**
+ * Generate count variations (1 to MAX_VARIATIONS), one call each, run in parallel within the global limit.
+ * Variations that fail are dropped; the run only fails when none came back.
+ * onProgress receives the number of variations received so far.
+ * Each image carries the text the model wrote with it.
  */
 export async function generateImages(
+  context: GenerationContext,
   prompt: string,
   systemInstruction: string,
   referenceImages: File[],
   aspectRatio: AspectRatio,
-  resolution: Resolution
-): Promise<string[]> {
-  await ensureApiKey();
-  
-  // CORRECTION VITE : Utilisation de import.meta.env
-  const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_API_KEY });
-  
-  const parts: Part[] = [];
-  for (const file of referenceImages) {
-    parts.push(await fileToPart(file));
-  }
-  parts.push({ text: prompt });
-
-  const config = {
-    systemInstruction: systemInstruction ? systemInstruction : undefined,
-    imageConfig: {
-      aspectRatio: aspectRatio,
-      imageSize: resolution,
-    },
-  };
-
-  const requests = [
-    ai.models.generateContent({
-      model: MODEL_GENERATE,
-      contents: { parts },
-      config,
-    }),
-    ai.models.generateContent({
-      model: MODEL_GENERATE,
-      contents: { parts },
-      config,
-    })
-  ];
-
-  const responses = await Promise.all(requests);
-  const images: string[] = [];
-
-  const processResponse = (resp: any) => {
-    if (resp.candidates?.[0]?.content?.parts) {
-      for (const part of resp.candidates[0].content.parts) {
-        if (part.inlineData) {
-          images.push(`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`);
-        }
+  resolution: Resolution,
+  count: number = DEFAULT_VARIATIONS,
+  signal?: AbortSignal,
+  onProgress?: (received: number) => void
+): Promise<ImageOutput[]> {
+  const variations = Math.min(MAX_VARIATIONS, Math.max(1, Math.round(count)));
+  const estimate: CostEstimate = { action: 'GENERATE', prompt, model: MODEL_PRO, resolution, imageCount: variations, unitPrice: getUnitPrice(MODEL_PRO, resolution) };
+  return withReservation(context, estimate, async reservationId => {
+    const references = await Promise.all(referenceImages.map(fileToInlineImage));
+    let received = 0;
+    let cancelledInFlight = 0;
+    const results = await Promise.allSettled(Array.from({ length: variations }, (_, i) => runLimited(async () => {
+      // Cancelled while waiting for a slot: never sent, nothing to pay
+      signal?.throwIfAborted();
+      try {
+        const { images, text } = await getImageProvider().generate({
+          prompt,
+          systemInstruction,
+          referenceImages: references,
+          aspectRatio,
+          resolution,
+          variation: i + 1,
+        }, signal);
+        if (images.length > 0) onProgress?.(++received);
+        return images.map((image): ImageOutput => ({ image, text }));
+      } catch (err) {
+        // Gemini keeps going (and bills) after the browser gives up on a call
+        if (isAbortError(err)) cancelledInFlight++;
+        throw err;
       }
-    }
-  };
-
-  responses.forEach(processResponse);
-  return images;
+    })));
+    const outputs = results.flatMap(r => r.status === 'fulfilled' ? r.value : []);
+    const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    const details = `${outputs.length} images generated`;
+    await recordCall(context, reservationId, 'GENERATE', prompt, details, MODEL_PRO, resolution, outputs.map(o => o.image), cancelledInFlight);
+    if (outputs.length === 0) throw failure ? failure.reason : new NoImageError(0);
+    return outputs;
+  });
 }
 
 /**
- * Refine a generated image
+ * Refine a generated image. mask (white = area to change) restricts the change to a zone.
  */
 export async function refineImage(
+  context: GenerationContext,
   prompt: string,
   base64Image: string,
   systemInstruction?: string,
   referenceImage?: File,
   aspectRatio?: AspectRatio,
-  resolution?: Resolution
-): Promise<string | null> {
-  await ensureApiKey();
-  
-  // CORRECTION VITE : Utilisation de import.meta.env
-  const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_API_KEY });
-
-  const [header, data] = base64Image.split(',');
-  const mimeType = header.split(':')[1].split(';')[0];
-
-  const parts: Part[] = [
-    {
-      inlineData: {
-        data: data,
-        mimeType: mimeType,
-      },
-    },
-  ];
-
-  if (referenceImage) {
-    parts.push(await fileToPart(referenceImage));
-  }
-
-  parts.push({ text: prompt });
-
-  const config: any = {
-    systemInstruction: systemInstruction ? systemInstruction : undefined,
-    imageConfig: {}
-  };
-
-  if (aspectRatio) config.imageConfig.aspectRatio = aspectRatio;
-  if (resolution) config.imageConfig.imageSize = resolution;
-
-  const response = await ai.models.generateContent({
-    model: MODEL_GENERATE,
-    contents: { parts },
-    config
+  resolution?: Resolution,
+  mask?: InpaintMask
+): Promise<ImageOutput> {
+  const estimate: CostEstimate = { action: 'REFINE', prompt, model: MODEL_PRO, resolution, imageCount: 1, unitPrice: getUnitPrice(MODEL_PRO, resolution) };
+  return withReservation(context, estimate, async reservationId => {
+    const reference = referenceImage ? await fileToInlineImage(referenceImage) : undefined;
+    const output = await runLimited(() => getImageProvider().refine({
+      prompt,
+      image: dataUrlToInlineImage(base64Image),
+      mask: mask ? dataUrlToInlineImage(mask.dataUrl) : undefined,
+      systemInstruction,
+      referenceImage: reference,
+      aspectRatio,
+      resolution,
+    }));
+    const image = await applyMask(base64Image, requireImage(output.image), mask);
+    await recordCall(context, reservationId, 'REFINE', prompt, 'Image refined', MODEL_PRO, resolution, [image]);
+    return { image, text: output.text };
   });
-
-  if (response.candidates?.[0]?.content?.parts) {
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData) {
-        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-      }
-    }
-  }
-
-  return null;
 }
 
 /**
- * Edit an image
+ * Edit an image. mask (white = area to change) restricts the edit to a zone.
  */
 export async function editImage(
+  context: GenerationContext,
   prompt: string,
   sourceImage: File,
-  referenceImage?: File
-): Promise<string | null> {
-  // CORRECTION VITE : Utilisation de import.meta.env
-  const ai = new GoogleGenAI({ apiKey:
+  referenceImage?: File,
+  mask?: InpaintMask
+): Promise<ImageOutput> {
+  const estimate: CostEstimate = { action: 'EDIT', prompt, model: MODEL_FLASH, imageCount: 1, unitPrice: getUnitPrice(MODEL_FLASH) };
+  return withReservation(context, estimate, async reservationId => {
+    const source = await fileToInlineImage(sourceImage);
+    const reference = referenceImage ? await fileToInlineImage(referenceImage) : undefined;
+    const output = await runLimited(() => getImageProvider().edit({
+      prompt,
+      sourceImage: source,
+      mask: mask ? dataUrlToInlineImage(mask.dataUrl) : undefined,
+      referenceImage: reference,
+    }));
+    const image = await applyMask(inlineImageToDataUrl(source), requireImage(output.image), mask);
+    await recordCall(context, reservationId, 'EDIT', prompt, 'Image edited', MODEL_FLASH, undefined, [image]);
+    return { image, text: output.text };
+  });
+}
+
+/**
+ * Generate a new view of an image based on rotation/tilt/zoom parameters
+ */
+export async function generateAngleVariation(
+  context: GenerationContext,
+  sourceImage: File,
+  rotation: number,
+  tilt: number,
+  zoom: string,
+  aspectRatio: AspectRatio,
+  resolution: Resolution,
+  userPrompt?: string
+): Promise<ImageOutput> {
+  const prompt = `Angle: ${rotation}°, ${tilt}°, ${zoom}${userPrompt ? ` | ${userPrompt}` : ''}`;
+  const estimate: CostEstimate = { action: 'ANGLE', prompt, model: MODEL_PRO, resolution, imageCount: 1, unitPrice: getUnitPrice(MODEL_PRO, resolution) };
+  return withReservation(context, estimate, async reservationId => {
+    const source = await fileToInlineImage(sourceImage);
+    const output = await runLimited(() => getImageProvider().angle({
+      sourceImage: source,
+      rotation,
+      tilt,
+      zoom,
+      aspectRatio,
+      resolution,
+      userPrompt,
+    }));
+    const image = requireImage(output.image);
+    await recordCall(context, reservationId, 'ANGLE', prompt, 'Angle variation generated', MODEL_PRO, resolution, [image]);
+    return { image, text: output.text };
+  });
+}
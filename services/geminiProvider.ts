@@ -0,0 +1,83 @@
+import type { ImageProvider, ImageResponse, ImagesResponse } from "./imageProvider";
+import { isAbortError, NetworkError, TimeoutError, toProviderError } from "./errors";
+
+// All Gemini calls go through our server (server/index.js) so the API key never ships to the browser.
+const API_BASE = '/api';
+const REQUEST_TIMEOUT_MS = 3 * 60 * 1000; // 4K generations can take a while
+
+// Shared key the proxy asks for (STUDIO_ACCESS_KEY on the server), entered once per browser in Admin > Settings.
+// Kept apart from the app config so it never ends up in a workspace backup.
+const SERVER_ACCESS_KEY = 'dpr_server_access_key';
+
+export const getServerAccessKey = (): string => localStorage.getItem(SERVER_ACCESS_KEY) || '';
+
+export const saveServerAccessKey = (key: string) => {
+  if (key) localStorage.setItem(SERVER_ACCESS_KEY, key);
+  else localStorage.removeItem(SERVER_ACCESS_KEY);
+};
+
+const isImagesResponse = (body: any): body is ImagesResponse =>
+  Array.isArray(body?.images) && body.images.every((image: unknown) => typeof image === 'string');
+
+const isImageResponse = (body: any): body is ImageResponse =>
+  body?.image === null || typeof body?.image === 'string';
+
+/**
+ * POST a JSON payload to the proxy and turn failures into typed errors (see services/errors.ts).
+ * A successful answer must match `isExpected`: a cut-off or malformed body is a network failure.
+ */
+async function callProxy<T>(endpoint: string, payload: unknown, isExpected: (body: unknown) => body is T, signal?: AbortSignal): Promise<T> {
+  const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}/${endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Studio-Key': getServerAccessKey() },
+      body: JSON.stringify(payload),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+  } catch (err) {
+    // Cancelled by the caller: let it through as is
+    if (isAbortError(err)) throw err;
+    if (timeout.aborted) throw new TimeoutError(0);
+    throw new NetworkError();
+  }
+
+  if (!response.ok) {
+    throw toProviderError(response.status, await response.json().catch(() => ({})));
+  }
+
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    if (timeout.aborted) throw new TimeoutError(0);
+    throw new NetworkError();
+  }
+  if (!isExpected(body)) throw new NetworkError();
+  return body;
+}
+
+/**
+ * Gemini 3 Pro / Flash Image through the server-side proxy
+ */
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+
+  generate(request, signal) {
+    return callProxy('generate', request, isImagesResponse, signal);
+  },
+
+  refine(request) {
+    return callProxy('refine', request, isImageResponse);
+  },
+
+  edit(request) {
+    return callProxy('edit', request, isImageResponse);
+  },
+
+  angle(request) {
+    return callProxy('angle', request, isImageResponse);
+  },
+};
@@ -0,0 +1,87 @@
+import { AspectRatio, Resolution } from "../types";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+
+/**
+ * Image payload handed to providers: pure base64 + mimeType
+ */
+export interface InlineImage {
+  data: string;
+  mimeType: string;
+}
+
+export interface GenerateRequest {
+  prompt: string;
+  systemInstruction?: string;
+  referenceImages: InlineImage[];
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  variation: number; // 1-based index within the run, one request per variation
+}
+
+export interface RefineRequest {
+  prompt: string;
+  image: InlineImage;
+  mask?: InlineImage; // White = area to change, see services/mask.ts
+  systemInstruction?: string;
+  referenceImage?: InlineImage;
+  aspectRatio?: AspectRatio;
+  resolution?: Resolution;
+}
+
+export interface EditRequest {
+  prompt: string;
+  sourceImage: InlineImage;
+  mask?: InlineImage; // White = area to change, see services/mask.ts
+  referenceImage?: InlineImage;
+}
+
+export interface AngleRequest {
+  sourceImage: InlineImage;
+  rotation: number;
+  tilt: number;
+  zoom: string;
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  userPrompt?: string;
+}
+
+/**
+ * What a call returned: images, plus the text the model wrote alongside them if any
+ */
+export interface ImagesResponse {
+  images: string[];
+  text?: string;
+}
+
+export interface ImageResponse {
+  image: string | null;
+  text?: string;
+}
+
+/**
+ * A backend able to produce images for the four studio tools.
+ * Images are data URLs so views can use them directly as <img> sources.
+ */
+export interface ImageProvider {
+  id: ImageProviderId;
+  generate(request: GenerateRequest, signal?: AbortSignal): Promise<ImagesResponse>;
+  refine(request: RefineRequest): Promise<ImageResponse>;
+  edit(request: EditRequest): Promise<ImageResponse>;
+  angle(request: AngleRequest): Promise<ImageResponse>;
+}
+
+export type ImageProviderId = 'gemini' | 'mock';
+
+const PROVIDERS: Record<ImageProviderId, ImageProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+/**
+ * Active provider, chosen at build time with VITE_IMAGE_PROVIDER (defaults to Gemini)
+ */
+export const getImageProvider = (): ImageProvider => {
+  const configured = import.meta.env.VITE_IMAGE_PROVIDER as ImageProviderId | undefined;
+  return (configured && PROVIDERS[configured]) || geminiProvider;
+};
@@ -0,0 +1,232 @@
+import { ChatMessage, GenerationJob, ImageOutput, Session, User } from "../types";
+import { generateImages } from "./gemini";
+import { appendSessionImages, deleteGenerationJob, getGenerationJobs, getImageId, incrementProjectImageCount, saveGenerationJob, saveImageToHistory } from "./db";
+import { isTransientError } from "./errors";
+
+/**
+ * Generate runs as persisted jobs: they keep running when the Generate tab unmounts,
+ * survive a reload (queued ones resume, running ones wait for the user), can be cancelled,
+ * and are retried on 429 / 5xx.
+ * Results are saved to the session and the history here, not by the view.
+ */
+
+// Fired with the updated job as detail
+export const EVENT_JOBS_UPDATED = 'dpr_jobs_updated';
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 2000; // Doubled on each retry
+const MAX_FINISHED_JOBS = 20; // Per user, older ones are dropped
+
+export type GenerationJobDraft = Pick<GenerationJob,
+  'projectId' | 'sessionId' | 'prompt' | 'systemInstruction' | 'referenceImages' | 'aspectRatio' | 'resolution' | 'variationCount'>;
+
+const jobs = new Map<string, GenerationJob>();
+const controllers = new Map<string, AbortController>();
+let currentUser: User | null = null;
+
+export const isJobActive = (job: GenerationJob): boolean => job.status === 'queued' || job.status === 'running';
+
+/**
+ * Jobs of the logged-in user, oldest first
+ */
+export const getJobs = (): GenerationJob[] => {
+  if (!currentUser) return [];
+  const userId = currentUser.id;
+  return [...jobs.values()].filter(job => job.userId === userId).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+const updateJob = (id: string, changes: Partial<GenerationJob>): GenerationJob => {
+  const job = { ...jobs.get(id)!, ...changes, updatedAt: Date.now() };
+  jobs.set(id, job);
+  saveGenerationJob(job).catch(e => console.error("Failed to save generation job", e));
+  window.dispatchEvent(new CustomEvent<GenerationJob>(EVENT_JOBS_UPDATED, { detail: job }));
+  return job;
+};
+
+const pruneFinishedJobs = (userId: string) => {
+  const finished = [...jobs.values()]
+    .filter(job => job.userId === userId && !isJobActive(job))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+  finished.slice(MAX_FINISHED_JOBS).forEach(job => {
+    jobs.delete(job.id);
+    deleteGenerationJob(job.id).catch(e => console.error("Failed to delete generation job", e));
+  });
+};
+
+/**
+ * Resolves false when aborted before the delay is over
+ */
+const wait = (ms: number, signal: AbortSignal): Promise<boolean> => {
+  return new Promise(resolve => {
+    const timer = setTimeout(() => resolve(true), ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve(false);
+    }, { once: true });
+  });
+};
+
+/**
+ * Magic Chat messages for the variations the model commented on. Ids derive from the job
+ * so the view shows the same messages the session got.
+ */
+export const getJobChatMessages = (job: GenerationJob): ChatMessage[] => {
+  return job.results.flatMap((result, i): ChatMessage[] => result.text
+    ? [{ id: `${job.id}-${i}`, role: 'model', text: result.text, image: result.image }]
+    : []);
+};
+
+const storeResults = async (job: GenerationJob): Promise<void> => {
+  const images = job.results.map(result => result.image);
+  const session: Session = {
+    id: job.sessionId,
+    timestamp: Date.now(),
+    prompt: job.prompt,
+    systemInstruction: job.systemInstruction,
+    generatedImages: [],
+    chatMessages: [],
+    aspectRatio: job.aspectRatio,
+    resolution: job.resolution,
+    projectId: job.projectId,
+    userId: job.userId
+  };
+  await appendSessionImages(session, images, getJobChatMessages(job));
+  await incrementProjectImageCount(job.projectId, images.length);
+  await Promise.all(job.results.map(result => saveImageToHistory({
+    id: crypto.randomUUID(),
+    image: result.image,
+    prompt: job.prompt,
+    systemInstruction: job.systemInstruction,
+    timestamp: Date.now(),
+    projectId: job.projectId,
+    modelText: result.text,
+    userId: job.userId
+  })));
+};
+
+const runJob = async (id: string, user: User): Promise<void> => {
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  const { signal } = controller;
+
+  try {
+    while (true) {
+      const job = updateJob(id, { status: 'running', attempts: jobs.get(id)!.attempts + 1, completed: 0, error: undefined });
+      try {
+        const outputs: ImageOutput[] = await generateImages(
+          { user, projectId: job.projectId },
+          job.prompt,
+          job.systemInstruction,
+          job.referenceImages,
+          job.aspectRatio,
+          job.resolution,
+          job.variationCount,
+          signal,
+          received => updateJob(id, { completed: received })
+        );
+        // Variations received before a cancel were paid for: keep them. The session and the history store
+        // the images, the job then points at the same stored blobs by id.
+        await storeResults({ ...job, results: outputs });
+        const results = await Promise.all(outputs.map(async (output): Promise<ImageOutput> => ({ ...output, image: await getImageId(output.image) })));
+        updateJob(id, { status: signal.aborted ? 'cancelled' : 'succeeded', results, completed: results.length });
+        return;
+      } catch (err: any) {
+        if (signal.aborted) {
+          updateJob(id, { status: 'cancelled' });
+          return;
+        }
+        const message = err?.message || 'Generation failed.';
+        if (!isTransientError(err) || job.attempts >= MAX_ATTEMPTS) {
+          updateJob(id, { status: 'failed', error: message });
+          return;
+        }
+        updateJob(id, { status: 'queued', error: `${message} Retrying…` });
+        if (!(await wait(RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1), signal))) {
+          updateJob(id, { status: 'cancelled' });
+          return;
+        }
+      }
+    }
+  } finally {
+    controllers.delete(id);
+    pruneFinishedJobs(user.id);
+    // Its user logged out meanwhile (see unloadJobs)
+    if (currentUser?.id !== user.id) jobs.delete(id);
+  }
+};
+
+/**
+ * Load the user's jobs after a reload. Queued ones had nothing in flight and resume; running ones
+ * had calls in flight that Gemini may have billed, so they are marked interrupted for the user to retry or not.
+ */
+export const loadJobs = async (user: User): Promise<void> => {
+  currentUser = user;
+  // Jobs already running in this page keep their in-memory state
+  const stored = (await getGenerationJobs(user.id)).filter(job => !controllers.has(job.id));
+  stored.forEach(job => jobs.set(job.id, job));
+  stored.filter(job => job.status === 'running').forEach(job => updateJob(job.id, {
+    status: 'interrupted',
+    error: 'Interrupted by a reload. Variations already requested may have been billed: retry to run it again.'
+  }));
+  stored.filter(job => job.status === 'queued').forEach(job => runJob(job.id, user));
+  window.dispatchEvent(new Event(EVENT_JOBS_UPDATED));
+};
+
+/**
+ * On logout: cancel the user's running jobs, so they stop calling the API and spending their budget
+ * once someone else logs in on this browser, and forget the user.
+ */
+export const unloadJobs = () => {
+  currentUser = null;
+  controllers.forEach(controller => controller.abort());
+  // Running ones are dropped when they stop
+  [...jobs.keys()].filter(id => !controllers.has(id)).forEach(id => jobs.delete(id));
+  window.dispatchEvent(new Event(EVENT_JOBS_UPDATED));
+};
+
+export const enqueueGeneration = async (user: User, draft: GenerationJobDraft): Promise<GenerationJob> => {
+  const now = Date.now();
+  const job: GenerationJob = {
+    ...draft,
+    id: crypto.randomUUID(),
+    userId: user.id,
+    status: 'queued',
+    attempts: 0,
+    completed: 0,
+    results: [],
+    createdAt: now,
+    updatedAt: now
+  };
+  jobs.set(job.id, job);
+  // Persisted before it starts so a reload right away still finds it
+  await saveGenerationJob(job);
+  window.dispatchEvent(new CustomEvent<GenerationJob>(EVENT_JOBS_UPDATED, { detail: job }));
+  runJob(job.id, user);
+  return job;
+};
+
+export const cancelJob = (id: string) => {
+  controllers.get(id)?.abort();
+};
+
+/**
+ * Start a failed, cancelled or interrupted job again, from its first attempt
+ */
+export const retryJob = (id: string) => {
+  const job = jobs.get(id);
+  if (!job || !currentUser || isJobActive(job)) return;
+  updateJob(id, { status: 'queued', attempts: 0, completed: 0, results: [], error: undefined });
+  runJob(id, currentUser);
+};
+
+export const removeJob = async (id: string): Promise<void> => {
+  const job = jobs.get(id);
+  if (!job || isJobActive(job)) return;
+  jobs.delete(id);
+  await deleteGenerationJob(id);
+  window.dispatchEvent(new Event(EVENT_JOBS_UPDATED));
+};
+
+export const clearFinishedJobs = async (): Promise<void> => {
+  await Promise.all(getJobs().filter(job => !isJobActive(job)).map(job => removeJob(job.id)));
+};
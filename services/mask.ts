@@ -0,0 +1,280 @@
+/**
+ * Inpainting masks: what the user painted or selected, as a black & white image at the source's natural size.
+ * White = area the model may change. The same mask is sent to the model and used to paste its output back.
+ *
+ * Everything is stored in natural image pixels (not displayed pixels), whatever the zoom or layout.
+ */
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface Rect {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+export interface MaskStroke {
+    mode: 'paint' | 'erase';
+    width: number;
+    points: Point[];
+}
+
+export type SelectionMode = 'replace' | 'add' | 'subtract';
+
+/**
+ * One selection made with the box, lasso / polygon or magic wand tool.
+ * A wand selection is a bitmap over its bounding box: 1 byte per pixel, non-zero = selected.
+ */
+export type SelectionShape =
+    | { kind: 'rect'; mode: 'add' | 'subtract'; rect: Rect }
+    | { kind: 'polygon'; mode: 'add' | 'subtract'; points: Point[] }
+    | { kind: 'bitmap'; mode: 'add' | 'subtract'; rect: Rect; bits: Uint8Array };
+
+export type SelectionGeometry =
+    | { kind: 'rect'; rect: Rect }
+    | { kind: 'polygon'; points: Point[] }
+    | { kind: 'bitmap'; rect: Rect; bits: Uint8Array };
+
+/**
+ * A mask as edited: brush strokes (replayed in order, the eraser removes paint)
+ * + selections (replayed in order, subtracting ones cut out of the previous ones).
+ * The mask is the union of both layers.
+ */
+export interface MaskState {
+    strokes: MaskStroke[];
+    selections: SelectionShape[];
+}
+
+/**
+ * Mask handed to the generation layer. feather softens the paste-back edge, in image pixels.
+ */
+export interface InpaintMask {
+    dataUrl: string;
+    feather: number;
+}
+
+export const EMPTY_MASK: MaskState = { strokes: [], selections: [] };
+
+/**
+ * Shift adds to the selection, Alt cuts out of it, no modifier replaces it
+ */
+export const combineSelection = (selections: SelectionShape[], shape: SelectionGeometry, mode: SelectionMode): SelectionShape[] => {
+    if (mode === 'replace') return [{ ...shape, mode: 'add' }];
+    return [...selections, { ...shape, mode }];
+};
+
+export const getSelectionMode = (e: { shiftKey: boolean; altKey: boolean }): SelectionMode => {
+    return e.altKey ? 'subtract' : (e.shiftKey ? 'add' : 'replace');
+};
+
+/**
+ * Draw one stroke (or the segment from fromIndex onwards, while the user is still painting)
+ */
+export const drawStroke = (ctx: CanvasRenderingContext2D, stroke: MaskStroke, color: string, fromIndex: number = 0) => {
+    const points = stroke.points.slice(Math.max(0, fromIndex - 1));
+    if (points.length === 0) return;
+
+    ctx.save();
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = stroke.width;
+    ctx.strokeStyle = color;
+    ctx.globalCompositeOperation = stroke.mode === 'paint' ? 'source-over' : 'destination-out';
+
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    // A single click still leaves a dot
+    points.slice(points.length > 1 ? 1 : 0).forEach(p => ctx.lineTo(p.x, p.y));
+    ctx.stroke();
+    ctx.restore();
+};
+
+export const drawStrokes = (ctx: CanvasRenderingContext2D, strokes: MaskStroke[], color: string) => {
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    strokes.forEach(stroke => drawStroke(ctx, stroke, color));
+};
+
+/**
+ * Draw the selection layer filled with color (transparent outside)
+ */
+export const drawSelections = (ctx: CanvasRenderingContext2D, selections: SelectionShape[], color: string) => {
+    ctx.save();
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    ctx.fillStyle = '#ffffff';
+    selections.forEach(shape => {
+        ctx.globalCompositeOperation = shape.mode === 'add' ? 'source-over' : 'destination-out';
+        if (shape.kind === 'rect') {
+            ctx.fillRect(shape.rect.x, shape.rect.y, shape.rect.w, shape.rect.h);
+        } else if (shape.kind === 'polygon') {
+            ctx.beginPath();
+            shape.points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+            ctx.closePath();
+            ctx.fill();
+        } else {
+            ctx.drawImage(bitmapToCanvas(shape.rect, shape.bits), shape.rect.x, shape.rect.y);
+        }
+    });
+    // Recolor what is left
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    ctx.restore();
+};
+
+const bitmapToCanvas = (rect: Rect, bits: Uint8Array): HTMLCanvasElement => {
+    const { canvas, ctx } = createCanvas(rect.w, rect.h);
+    const imageData = ctx.createImageData(rect.w, rect.h);
+    for (let i = 0; i < bits.length; i++) {
+        if (!bits[i]) continue;
+        imageData.data.set([255, 255, 255, 255], i * 4);
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return canvas;
+};
+
+/**
+ * Magic wand: the area connected to start whose colour is within tolerance (0-255, per channel on average)
+ * of the clicked pixel. Returns null when start is outside the image.
+ */
+export const magicWand = (pixels: ImageData, start: Point, tolerance: number): { kind: 'bitmap'; rect: Rect; bits: Uint8Array } | null => {
+    const { width, height, data } = pixels;
+    const sx = Math.floor(start.x);
+    const sy = Math.floor(start.y);
+    if (sx < 0 || sy < 0 || sx >= width || sy >= height) return null;
+
+    const seed = (sy * width + sx) * 4;
+    const [r, g, b] = [data[seed], data[seed + 1], data[seed + 2]];
+    const maxDistance = tolerance * 3;
+    const matches = (index: number) => {
+        const o = index * 4;
+        return Math.abs(data[o] - r) + Math.abs(data[o + 1] - g) + Math.abs(data[o + 2] - b) <= maxDistance;
+    };
+
+    // 4-neighbour flood fill, iterative so large areas do not blow the stack
+    const selected = new Uint8Array(width * height);
+    const stack = [sy * width + sx];
+    selected[stack[0]] = 1;
+    let minX = sx, minY = sy, maxX = sx, maxY = sy;
+    while (stack.length > 0) {
+        const index = stack.pop()!;
+        const x = index % width;
+        const y = (index - x) / width;
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+
+        const neighbours = [
+            x > 0 ? index - 1 : -1,
+            x < width - 1 ? index + 1 : -1,
+            y > 0 ? index - width : -1,
+            y < height - 1 ? index + width : -1
+        ];
+        for (const n of neighbours) {
+            if (n >= 0 && !selected[n] && matches(n)) {
+                selected[n] = 1;
+                stack.push(n);
+            }
+        }
+    }
+
+    // Keep only the bounding box: history holds one bitmap per wand click
+    const rect = { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
+    const bits = new Uint8Array(rect.w * rect.h);
+    for (let y = 0; y < rect.h; y++) {
+        bits.set(selected.subarray((rect.y + y) * width + rect.x, (rect.y + y) * width + rect.x + rect.w), y * rect.w);
+    }
+    return { kind: 'bitmap', rect, bits };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Could not load image'));
+        img.src = src;
+    });
+};
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return { canvas, ctx: canvas.getContext('2d', { willReadFrequently: true })! };
+};
+
+/**
+ * Pixels of a loaded image at its natural size (magic wand input)
+ */
+export const readImagePixels = (img: HTMLImageElement): ImageData => {
+    const { ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.drawImage(img, 0, 0);
+    return ctx.getImageData(0, 0, img.naturalWidth, img.naturalHeight);
+};
+
+/**
+ * Rasterize a mask into a PNG data URL of width x height. Returns null when nothing is selected.
+ */
+export const buildMask = (mask: MaskState, width: number, height: number): string | null => {
+    const { canvas, ctx } = createCanvas(width, height);
+    drawStrokes(ctx, mask.strokes, '#ffffff');
+    const selection = createCanvas(width, height);
+    drawSelections(selection.ctx, mask.selections, '#ffffff');
+    ctx.drawImage(selection.canvas, 0, 0);
+
+    // Both layers are white on transparent: flatten onto black
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const data = imageData.data;
+    let selected = false;
+    for (let i = 0; i < data.length; i += 4) {
+        const value = data[i + 3] > 0 ? 255 : 0;
+        if (value) selected = true;
+        data[i] = data[i + 1] = data[i + 2] = value;
+        data[i + 3] = 255;
+    }
+    if (!selected) return null;
+
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Paste the model output onto the source, only where the mask is white.
+ * The output is resized to the source first (models do not always keep the size),
+ * and the feathered edge fades inward only: every pixel outside the mask is the source pixel, untouched.
+ */
+export const compositeWithMask = async (sourceUrl: string, resultUrl: string, mask: InpaintMask): Promise<string> => {
+    const [source, result, maskImage] = await Promise.all([loadImage(sourceUrl), loadImage(resultUrl), loadImage(mask.dataUrl)]);
+    const width = source.naturalWidth;
+    const height = source.naturalHeight;
+
+    const read = (img: HTMLImageElement, filter: string = 'none') => {
+        const { ctx } = createCanvas(width, height);
+        ctx.filter = filter;
+        ctx.drawImage(img, 0, 0, width, height);
+        return ctx.getImageData(0, 0, width, height);
+    };
+    const sourceData = read(source);
+    const resultPixels = read(result).data;
+    const maskPixels = read(maskImage).data;
+    const featherPixels = mask.feather > 0 ? read(maskImage, `blur(${mask.feather}px)`).data : maskPixels;
+
+    // Grey values of the blurred mask (feathered edge) blend both images. The blur also spreads outside
+    // the mask: clamped to the mask itself, so only its inner edge is softened.
+    const out = sourceData.data;
+    for (let i = 0; i < out.length; i += 4) {
+        const weight = Math.min(maskPixels[i], featherPixels[i]) / 255;
+        if (weight === 0) continue;
+        for (let c = 0; c < 4; c++) {
+            out[i + c] = Math.round(out[i + c] * (1 - weight) + resultPixels[i + c] * weight);
+        }
+    }
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.putImageData(sourceData, 0, 0);
+    return canvas.toDataURL('image/png');
+};
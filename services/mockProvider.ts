@@ -0,0 +1,169 @@
+import { AspectRatio } from "../types";
+import type { ImageProvider, InlineImage } from "./imageProvider";
+
+// Offline provider: synthesizes placeholder images locally, no network and no cost.
+// Same inputs always give the same pixels, so UI flows can be tested reliably.
+const MOCK_LATENCY_MS = 600;
+const MOCK_LONG_EDGE = 1024;
+
+interface PlaceholderOptions {
+  title: string;
+  caption: string;
+  seed: string;
+  aspectRatio?: AspectRatio;
+  source?: InlineImage;
+}
+
+/**
+ * FNV-1a hash, used to derive stable colors from the request
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const sizeForAspectRatio = (aspectRatio: AspectRatio) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  return w >= h
+    ? { width: MOCK_LONG_EDGE, height: Math.round(MOCK_LONG_EDGE * h / w) }
+    : { width: Math.round(MOCK_LONG_EDGE * w / h), height: MOCK_LONG_EDGE };
+};
+
+const loadInlineImage = async (image: InlineImage): Promise<ImageBitmap> => {
+  const blob = await (await fetch(`data:${image.mimeType};base64,${image.data}`)).blob();
+  return createImageBitmap(blob);
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+      if (lines.length === maxLines) break;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line && lines.length < maxLines) lines.push(line);
+  return lines;
+};
+
+/**
+ * Draw a labelled placeholder: a seeded gradient, or the source image under a tint
+ */
+const renderPlaceholder = async ({ title, caption, seed, aspectRatio, source }: PlaceholderOptions): Promise<string> => {
+  const bitmap = source ? await loadInlineImage(source) : null;
+  const { width, height } = aspectRatio
+    ? sizeForAspectRatio(aspectRatio)
+    : bitmap ? { width: bitmap.width, height: bitmap.height } : sizeForAspectRatio(AspectRatio.SQUARE);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+
+  const hue = hashString(seed) % 360;
+  if (bitmap) {
+    // Cover-fit the source so the framing changes with the requested ratio
+    const scale = Math.max(width / bitmap.width, height / bitmap.height);
+    const dw = bitmap.width * scale;
+    const dh = bitmap.height * scale;
+    ctx.drawImage(bitmap, (width - dw) / 2, (height - dh) / 2, dw, dh);
+    bitmap.close();
+    ctx.fillStyle = `hsla(${hue}, 70%, 50%, 0.35)`;
+    ctx.fillRect(0, 0, width, height);
+  } else {
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 65%, 45%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 65%, 20%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  const fontSize = Math.round(Math.min(width, height) / 18);
+  const padding = fontSize;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(0, height - fontSize * 7, width, fontSize * 7);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.textBaseline = 'top';
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  ctx.fillText(title, padding, height - fontSize * 6.5);
+
+  ctx.font = `${Math.round(fontSize * 0.7)}px sans-serif`;
+  wrapText(ctx, caption, width - padding * 2, 4).forEach((line, i) => {
+    ctx.fillText(line, padding, height - fontSize * 5 + i * fontSize);
+  });
+
+  return canvas.toDataURL('image/png');
+};
+
+const simulateLatency = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, MOCK_LATENCY_MS);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  }, { once: true });
+});
+
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+
+  async generate({ prompt, systemInstruction, referenceImages, aspectRatio, resolution, variation }, signal) {
+    await simulateLatency(signal);
+    return {
+      images: [await renderPlaceholder({
+        title: `MOCK GENERATE #${variation} · ${aspectRatio} · ${resolution}`,
+        caption: prompt,
+        seed: `${prompt}|${systemInstruction || ''}|${referenceImages.length}|${variation}`,
+        aspectRatio,
+      })],
+    };
+  },
+
+  async refine({ prompt, image, aspectRatio, resolution }) {
+    await simulateLatency();
+    return {
+      image: await renderPlaceholder({
+        title: `MOCK REFINE${resolution ? ` · ${resolution}` : ''}`,
+        caption: prompt,
+        seed: `refine|${prompt}`,
+        aspectRatio,
+        source: image,
+      }),
+      text: `Mock refinement: "${prompt}"`,
+    };
+  },
+
+  async edit({ prompt, sourceImage }) {
+    await simulateLatency();
+    return {
+      image: await renderPlaceholder({
+        title: 'MOCK EDIT',
+        caption: prompt,
+        seed: `edit|${prompt}`,
+        source: sourceImage,
+      }),
+    };
+  },
+
+  async angle({ sourceImage, rotation, tilt, zoom, aspectRatio, resolution, userPrompt }) {
+    await simulateLatency();
+    return {
+      image: await renderPlaceholder({
+        title: `MOCK ANGLE · ${rotation}° / ${tilt}° · ${zoom} · ${resolution}`,
+        caption: userPrompt || 'Same subject, new camera position',
+        seed: `angle|${rotation}|${tilt}|${zoom}|${userPrompt || ''}`,
+        aspectRatio,
+        source: sourceImage,
+      }),
+    };
+  },
+};
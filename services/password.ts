@@ -0,0 +1,58 @@
+// Salted password hashing (PBKDF2-SHA256 via WebCrypto).
+// Stored format: pbkdf2-sha256$<iterations>$<salt b64>$<hash b64>, so iterations can be raised later
+// without invalidating existing records.
+const HASH_SCHEME = 'pbkdf2-sha256';
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+const TOKEN_BYTES = 32;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const deriveHash = async (password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<Uint8Array> => {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+    return new Uint8Array(bits);
+};
+
+export const hashPassword = async (password: string): Promise<string> => {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const hash = await deriveHash(password, salt, PBKDF2_ITERATIONS);
+    return `${HASH_SCHEME}$${PBKDF2_ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+};
+
+export const verifyPassword = async (password: string, storedHash: string): Promise<boolean> => {
+    const [scheme, iterations, salt, hash] = (storedHash || '').split('$');
+    if (scheme !== HASH_SCHEME || !salt || !hash) return false;
+
+    const candidate = await deriveHash(password, fromBase64(salt), Number(iterations));
+    const expected = fromBase64(hash);
+    if (candidate.length !== expected.length) return false;
+
+    // Constant-time comparison
+    let diff = 0;
+    for (let i = 0; i < candidate.length; i++) {
+        diff |= candidate[i] ^ expected[i];
+    }
+    return diff === 0;
+};
+
+/**
+ * Random URL-safe secret, used for one-time reset tokens
+ */
+export const generateToken = (): string => {
+    return toBase64(crypto.getRandomValues(new Uint8Array(TOKEN_BYTES)))
+        .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Reset tokens are random and single-use, so a plain SHA-256 is enough to avoid storing them as is
+ */
+export const hashToken = async (token: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+    return toBase64(new Uint8Array(digest));
+};
@@ -0,0 +1,86 @@
+import { Project, ProjectMember, User, UserRole } from "../types";
+
+export type Permission =
+    | 'history.view'            // Browse generated images
+    | 'history.delete'          // Remove images from history
+    | 'images.create'           // Generate / Edit / Angles tools
+    | 'projects.manage'         // Create and delete projects
+    | 'projects.manageMembers'  // Assign people to projects
+    | 'projects.manageBudgets'  // Set project budgets
+    | 'users.manage'            // Create, edit and delete accounts
+    | 'logs.view'               // Activity logs & financial report
+    | 'settings.manage'         // Application branding
+    | 'workspace.backup';       // Export and restore all the data
+
+const CREATOR_PERMISSIONS: Permission[] = ['history.view', 'history.delete', 'images.create'];
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+    viewer: ['history.view'],
+    creator: CREATOR_PERMISSIONS,
+    project_manager: [...CREATOR_PERMISSIONS, 'projects.manageMembers', 'projects.manageBudgets', 'logs.view'],
+    admin: [
+        ...CREATOR_PERMISSIONS,
+        'projects.manage', 'projects.manageMembers', 'projects.manageBudgets',
+        'users.manage', 'logs.view', 'settings.manage', 'workspace.backup'
+    ]
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+    viewer: 'Viewer',
+    creator: 'Creator',
+    project_manager: 'Project Manager',
+    admin: 'Admin'
+};
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+    viewer: 'History only',
+    creator: 'Generate, Edit & Angles',
+    project_manager: 'Manages members and budgets of their projects',
+    admin: 'Full access'
+};
+
+export class PermissionError extends Error {
+    constructor(public permission: Permission) {
+        super(`You are not allowed to perform this action (${permission})`);
+        this.name = 'PermissionError';
+    }
+}
+
+export const hasPermission = (user: User | null | undefined, permission: Permission): boolean => {
+    return !!user && (ROLE_PERMISSIONS[user.role] || []).includes(permission);
+};
+
+export const assertPermission = (user: User | null | undefined, permission: Permission) => {
+    if (!hasPermission(user, permission)) throw new PermissionError(permission);
+};
+
+/**
+ * The Admin tab hosts user, project and budget management: shown to anyone holding one of those rights
+ */
+export const canAccessAdmin = (user: User | null | undefined): boolean => {
+    return hasPermission(user, 'users.manage') ||
+        hasPermission(user, 'projects.manage') ||
+        hasPermission(user, 'projects.manageMembers') ||
+        hasPermission(user, 'projects.manageBudgets');
+};
+
+// --- Project Access ---
+
+export const getProjectMembership = (user: User | null | undefined, project: Project): ProjectMember | undefined => {
+    return user ? project.members?.find(m => m.userId === user.id) : undefined;
+};
+
+/**
+ * Admins see every project, everyone else only the projects they are a member of
+ */
+export const canAccessProject = (user: User | null | undefined, project: Project): boolean => {
+    return hasPermission(user, 'projects.manage') || !!getProjectMembership(user, project);
+};
+
+/**
+ * Admins manage every project, project managers only those where they are a manager
+ */
+export const managesProject = (user: User | null | undefined, project: Project): boolean => {
+    if (hasPermission(user, 'projects.manage')) return true;
+    return hasPermission(user, 'projects.manageMembers') && getProjectMembership(user, project)?.role === 'manager';
+};
@@ -0,0 +1,28 @@
+/**
+ * Small previews for grids and tables. They are made once, when an image is stored (see prepareImage in db.ts),
+ * so lists never decode full 4K images.
+ */
+
+export const THUMBNAIL_SIZE = 320; // Longest side, in pixels
+const THUMBNAIL_TYPE = 'image/webp';
+const THUMBNAIL_QUALITY = 0.8;
+
+/**
+ * Downsized WebP copy of an image. Images already smaller than a thumbnail are only re-encoded.
+ */
+export const createThumbnail = async (image: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(image);
+  try {
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable');
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return await canvas.convertToBlob({ type: THUMBNAIL_TYPE, quality: THUMBNAIL_QUALITY });
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,161 @@
+/**
+ * Minimal zip archive support for workspace backups (see backup.ts).
+ * Files are written uncompressed: images are already compressed, and the manifest is small next to them.
+ * Reading also accepts deflated entries, so an archive re-zipped by another tool still imports.
+ * No Zip64: up to 65535 files and 4 GB.
+ */
+
+export interface ZipFile {
+  name: string;
+  data: Blob;
+}
+
+export interface ZipEntry {
+  name: string;
+  read: () => Promise<Blob>;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const UTF8_NAMES_FLAG = 0x0800;
+// Fixed part of the end of central directory record, followed by a comment of up to 64 KB
+const END_RECORD_SIZE = 22;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time, the only ones the base format knows
+const dosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+/**
+ * Archive the files. Each one is read once for its checksum; the archive itself is assembled from Blob parts.
+ */
+export const createZip = async (files: ZipFile[]): Promise<Blob> => {
+  if (files.length > 0xffff) throw new Error('Too many files for a zip archive.');
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(new Date());
+  const parts: BlobPart[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const crc = crc32(new Uint8Array(await file.data.arrayBuffer()));
+    const size = file.data.size;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    local.setUint16(4, 20, true); // Version needed
+    local.setUint16(6, UTF8_NAMES_FLAG, true);
+    local.setUint16(8, METHOD_STORED, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    parts.push(local.buffer, name, file.data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    central.setUint16(4, 20, true); // Version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, UTF8_NAMES_FLAG, true);
+    central.setUint16(10, METHOD_STORED, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + size;
+    if (offset > 0xffffffff) throw new Error('Archive larger than 4 GB.');
+  }
+
+  const directorySize = centralDirectory.reduce((acc, part) => acc + part.length, 0);
+  const end = new DataView(new ArrayBuffer(END_RECORD_SIZE));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end.buffer], { type: 'application/zip' });
+};
+
+const readView = async (blob: Blob, start: number, length: number): Promise<DataView> => {
+  return new DataView(await blob.slice(start, start + length).arrayBuffer());
+};
+
+const inflate = (data: Blob): Promise<Blob> => {
+  return new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+};
+
+/**
+ * Entries of an archive. Contents are only read when asked for, so large archives are not loaded at once.
+ */
+export const readZip = async (zip: Blob): Promise<ZipEntry[]> => {
+  const tailStart = Math.max(0, zip.size - END_RECORD_SIZE - 0xffff);
+  const tail = await readView(zip, tailStart, zip.size - tailStart);
+  let endOffset = -1;
+  for (let i = tail.byteLength - END_RECORD_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) throw new Error('Not a zip archive.');
+
+  const count = tail.getUint16(endOffset + 10, true);
+  const directorySize = tail.getUint32(endOffset + 12, true);
+  const directoryOffset = tail.getUint32(endOffset + 16, true);
+  const directory = await readView(zip, directoryOffset, directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  let position = 0;
+  for (let i = 0; i < count; i++) {
+    if (directory.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) throw new Error('Corrupted zip archive.');
+    const method = directory.getUint16(position + 10, true);
+    const compressedSize = directory.getUint32(position + 20, true);
+    const nameLength = directory.getUint16(position + 28, true);
+    const extraLength = directory.getUint16(position + 30, true);
+    const commentLength = directory.getUint16(position + 32, true);
+    const localOffset = directory.getUint32(position + 42, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + position + 46, nameLength));
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // Folder
+    if (method !== METHOD_STORED && method !== METHOD_DEFLATE) throw new Error(`Unsupported compression in ${name}.`);
+
+    entries.push({
+      name,
+      read: async () => {
+        // Name and extra field lengths of the local header may differ from the central directory's
+        const local = await readView(zip, localOffset, 30);
+        const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+        const data = zip.slice(dataStart, dataStart + compressedSize);
+        return method === METHOD_DEFLATE ? inflate(data) : data;
+      }
+    });
+  }
+  return entries;
+};
@@ -1,6 +1,7 @@
 
 export enum Tab {
   GENERATE = 'GENERATE',
+  EDIT = 'EDIT',
   ANGLES = 'ANGLES',
   HISTORY = 'HISTORY',
   ADMIN = 'ADMIN'
@@ -21,28 +22,56 @@ export enum Resolution {
   RES_4K = '4K'
 }
 
+// Role of a person inside a project: managers handle its members (see services/permissions.ts)
+export type ProjectMemberRole = 'manager' | 'member';
+
+export interface ProjectMember {
+  userId: string;
+  role: ProjectMemberRole;
+}
+
+export type BudgetPeriod = 'monthly' | 'one_off';
+
+// Spending cap of a project or a user, checked before each generation (see services/budgets.ts)
+export interface BudgetLimit {
+  amount: number; // USD
+  period: BudgetPeriod;
+  warnAt: number; // Share of the amount (0-1) from which a warning is shown
+  startsAt: number; // One-off budgets count spending from this date
+}
+
 export interface Project {
   id: string;
   name: string;
   createdAt: number;
   imageCount: number;
+  members?: ProjectMember[]; // Admins see every project, other users only those they belong to
+  budget?: BudgetLimit;
 }
 
 export interface GeneratedImage {
   id: string;
-  url: string;
+  image: string; // Image ref: blob store id once saved (see services/db.ts)
   prompt: string;
   systemInstruction?: string;
   timestamp: number;
   projectId?: string;
   projectName?: string;
+  modelText?: string; // Text the model returned with the image
+  userId?: string; // Author, allowed to delete it (older records have none)
+}
+
+// An image returned by the model, with the text it wrote alongside (what it did, caveats)
+export interface ImageOutput {
+  image: string; // Image ref
+  text?: string;
 }
 
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
   text?: string;
-  image?: string;
+  image?: string; // Image ref
 }
 
 export interface Session {
@@ -51,36 +80,83 @@ export interface Session {
   timestamp: number;
   prompt: string; // The initial prompt
   systemInstruction: string;
-  generatedImages: string[]; // URLs of initial images
+  generatedImages: string[]; // Image refs of the generated images
   chatMessages: ChatMessage[]; // Refinement history
   aspectRatio: AspectRatio;
   resolution: Resolution;
   projectId?: string;
+  userId?: string; // Author, allowed to delete it (older records have none)
 }
 
-export type UserRole = 'admin' | 'user';
+// Permissions of each role: see services/permissions.ts
+export type UserRole = 'admin' | 'project_manager' | 'creator' | 'viewer';
 
 export interface User {
   id: string;
   email: string;
-  password: string; // stored in plain text for this local demo only
+  passwordHash: string; // Salted PBKDF2 hash, see services/password.ts
   name: string;
   role: UserRole;
+  mustChangePassword?: boolean; // Temporary password set by an admin
+  resetTokenHash?: string; // SHA-256 of the pending one-time reset token
+  resetTokenExpiresAt?: number;
+  budget?: BudgetLimit;
 }
 
 export interface ActivityLog {
   id: string;
   userId: string;
   userEmail: string;
-  action: 'GENERATE' | 'REFINE' | 'EDIT';
+  action: 'GENERATE' | 'REFINE' | 'EDIT' | 'ANGLE';
   prompt: string;
   details: string; // e.g., "3 images generated"
-  thumbnailUrl?: string; // First image generated
+  thumbnailUrl?: string; // Image ref of the first image generated
   timestamp: number;
   projectId?: string;
   cost?: number; // Cost in USD
 }
 
+// One paid API call. The cost ledger is the source of every total (nav, budgets, admin, CSV).
+export interface CostEntry {
+  id: string;
+  timestamp: number;
+  userId: string;
+  userEmail: string;
+  projectId?: string;
+  action: ActivityLog['action'];
+  prompt: string;
+  model: string;
+  resolution?: Resolution;
+  imageCount: number;
+  unitPrice: number; // USD per image
+  cost: number; // imageCount x unitPrice
+  reservedUntil?: number; // Set on the estimate booked while the call runs (see reserveBudget in services/budgets.ts)
+}
+
+// interrupted: was running when the page reloaded, only run again if the user asks (it may already have been billed)
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled' | 'interrupted';
+
+// One Generate run, persisted so it survives tab switches and reloads (see services/jobQueue.ts)
+export interface GenerationJob {
+  id: string;
+  userId: string;
+  projectId: string;
+  sessionId: string; // Session the results are appended to
+  prompt: string;
+  systemInstruction: string;
+  referenceImages: File[];
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  variationCount: number;
+  status: JobStatus;
+  attempts: number;
+  completed: number; // Variations received so far
+  results: ImageOutput[];
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
 // Augment window for AI Studio helper by extending the expected AIStudio interface
 declare global {
   interface AIStudio {
@@ -0,0 +1,9 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_IMAGE_PROVIDER?: 'gemini' | 'mock';
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
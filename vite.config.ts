@@ -3,6 +3,12 @@ import react from '@vitejs/plugin-react'
 
 export default defineConfig({
   plugins: [react()],
+  server: {
+    // Gemini calls go through the Node proxy (npm run server)
+    proxy: {
+      '/api': 'http://localhost:8080'
+    }
+  },
   preview: {
     allowedHosts: true, // Cette ligne autorise votre URL Google Cloud
     port: 8080,